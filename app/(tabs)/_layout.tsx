@@ -3,20 +3,35 @@
  * 
  * Bottom tab bar with Home, Playlists, and Now Playing tabs
  * Apple-style design with custom icons
+ * The mini-player is docked above the tab bar, except on Now Playing itself
  */
 
 import React from 'react';
 import { Tabs } from 'expo-router';
+import { BottomTabBar, BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
-import { useColorScheme, Platform } from 'react-native';
+import { useColorScheme, Platform, View } from 'react-native';
+import { MiniPlayer } from '@/components/ui';
 import { colors, getColors, sizes } from '@/constants';
 
+function TabBarWithMiniPlayer(props: BottomTabBarProps) {
+  const currentRoute = props.state.routes[props.state.index]?.name;
+
+  return (
+    <View>
+      {currentRoute !== 'now-playing' && <MiniPlayer />}
+      <BottomTabBar {...props} />
+    </View>
+  );
+}
+
 export default function TabLayout() {
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
   return (
     <Tabs
+      tabBar={(props) => <TabBarWithMiniPlayer {...props} />}
       screenOptions={{
         headerShown: false,
         tabBarActiveTintColor: colors.primary,
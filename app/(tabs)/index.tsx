@@ -4,6 +4,7 @@
  * Main dashboard showing:
  * - User greeting
  * - Partner status card
+ * - Invite responses still waiting to be sent
  * - Quick actions
  */
 
@@ -14,6 +15,7 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Switch,
   useColorScheme,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -21,7 +23,11 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSocket } from '@/contexts/SocketContext';
-import { Card, Avatar, Button, StatusBadge } from '@/components/ui';
+import { usePlayback } from '@/contexts/PlaybackContext';
+import { useOutbox } from '@/hooks/useOutbox';
+import { Card, Avatar, PartnerAvatars, Button, StatusBadge } from '@/components/ui';
+import { outbox, OutboxEntry } from '@/lib/outbox';
+import type { StoredPartner, StoredUser } from '@/lib/storage';
 import {
   colors,
   getColors,
@@ -32,8 +38,16 @@ import {
 } from '@/constants';
 
 export default function HomeScreen() {
-  const { user, partnerId, logout } = useAuth();
-  const { isPartnerOnline, partnerStatus } = useSocket();
+  const { user, partnerId, partner, logout } = useAuth();
+  const { isPartnerOnline, partnerStatus, protocolError, connectionState } = useSocket();
+  const { isSharing, setSharing } = usePlayback();
+  const outboxEntries = useOutbox();
+  const inviteResponses = outboxEntries.filter(
+    (entry) =>
+      entry.mutation.type === 'acceptInvite' || entry.mutation.type === 'declineInvite'
+  );
+  const isLiveInterrupted =
+    !protocolError && (connectionState === 'reconnecting' || connectionState === 'offline');
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
@@ -61,6 +75,39 @@ export default function HomeScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Live updates are off until the app is updated */}
+        {protocolError && (
+          <Card variant="outlined" padding="md" style={styles.protocolError}>
+            <View style={styles.protocolErrorRow}>
+              <Ionicons name="warning-outline" size={20} color={colors.warning} />
+              <Text style={[styles.protocolErrorText, { color: themeColors.text }]}>
+                {protocolError}
+              </Text>
+            </View>
+          </Card>
+        )}
+
+        {/* Partner status is paused while the socket is down */}
+        {partnerId && isLiveInterrupted && (
+          <View style={styles.connectionRow}>
+            <Ionicons
+              name={connectionState === 'offline' ? 'cloud-offline-outline' : 'sync-outline'}
+              size={16}
+              color={themeColors.textSecondary}
+            />
+            <Text style={[styles.connectionText, { color: themeColors.textSecondary }]}>
+              {connectionState === 'offline'
+                ? 'Offline · live updates paused'
+                : 'Reconnecting…'}
+            </Text>
+          </View>
+        )}
+
+        {/* Accepted or declined offline, or refused by the server since */}
+        {inviteResponses.map((entry) => (
+          <InviteResponseCard key={entry.id} entry={entry} themeColors={themeColors} />
+        ))}
+
         {/* Partner Card */}
         <Card
           variant="elevated"
@@ -70,6 +117,8 @@ export default function HomeScreen() {
         >
           {partnerId ? (
             <PartnerConnected
+              user={user}
+              partner={partner}
               isOnline={isPartnerOnline}
               partnerStatus={partnerStatus}
             />
@@ -106,6 +155,32 @@ export default function HomeScreen() {
           <Text style={[styles.sectionTitle, { color: themeColors.text }]}>
             Your Connection
           </Text>
+          {partnerId && (
+            <Card variant="outlined" padding="md" style={styles.sharingCard}>
+              <View style={styles.sharingRow}>
+                <Ionicons
+                  name={isSharing ? 'radio-outline' : 'eye-off-outline'}
+                  size={22}
+                  color={isSharing ? colors.primary : themeColors.textMuted}
+                />
+                <View style={styles.sharingInfo}>
+                  <Text style={[styles.sharingTitle, { color: themeColors.text }]}>
+                    Share my listening
+                  </Text>
+                  <Text style={[styles.sharingSubtitle, { color: themeColors.textSecondary }]}>
+                    {isSharing
+                      ? 'Your partner can see what you play'
+                      : 'Paused - your partner sees nothing'}
+                  </Text>
+                </View>
+                <Switch
+                  value={isSharing}
+                  onValueChange={setSharing}
+                  trackColor={{ true: colors.primary }}
+                />
+              </View>
+            </Card>
+          )}
           <Card variant="outlined" padding="lg">
             <View style={styles.emptyState}>
               <Ionicons
@@ -128,9 +203,13 @@ export default function HomeScreen() {
 }
 
 function PartnerConnected({
+  user,
+  partner,
   isOnline,
   partnerStatus,
 }: {
+  user: StoredUser | null;
+  partner: StoredPartner | null;
   isOnline: boolean;
   partnerStatus: ReturnType<typeof useSocket>['partnerStatus'];
 }) {
@@ -140,10 +219,19 @@ function PartnerConnected({
   return (
     <View style={styles.partnerContent}>
       <View style={styles.partnerHeader}>
-        <Avatar name="Partner" size="lg" showStatus isOnline={isOnline} />
+        <PartnerAvatars
+          user1Uri={user?.images?.[0]?.url}
+          user1Name={user?.displayName}
+          user2Uri={partner?.images?.[0]?.url}
+          user2Name={partner?.displayName ?? 'Partner'}
+          size="md"
+        />
         <View style={styles.partnerInfo}>
-          <Text style={[styles.partnerLabel, { color: themeColors.textSecondary }]}>
-            Your Partner
+          <Text
+            style={[styles.partnerLabel, { color: themeColors.textSecondary }]}
+            numberOfLines={1}
+          >
+            {partner?.displayName ?? 'Your Partner'}
           </Text>
           {partnerStatus?.isListening ? (
             <>
@@ -216,6 +304,64 @@ function NoPartner() {
   );
 }
 
+function InviteResponseCard({
+  entry,
+  themeColors,
+}: {
+  entry: OutboxEntry;
+  themeColors: ReturnType<typeof getColors>;
+}) {
+  const isAccept = entry.mutation.type === 'acceptInvite';
+  const isFailed = entry.status === 'failed';
+
+  const title = isFailed
+    ? isAccept ? "Couldn't accept the invite" : "Couldn't decline the invite"
+    : isAccept ? 'Accepting the invite' : 'Declining the invite';
+  const detail = isFailed
+    ? entry.error ?? 'Something went wrong'
+    : "We'll finish as soon as you're back online.";
+
+  return (
+    <Card
+      variant="outlined"
+      padding="md"
+      style={isFailed ? styles.inviteResponseFailed : styles.inviteResponse}
+    >
+      <View style={styles.inviteResponseRow}>
+        <Ionicons
+          name={isFailed ? 'alert-circle-outline' : 'time-outline'}
+          size={20}
+          color={isFailed ? colors.error : themeColors.textSecondary}
+        />
+        <View style={styles.inviteResponseInfo}>
+          <Text style={[styles.inviteResponseTitle, { color: themeColors.text }]}>
+            {title}
+          </Text>
+          <Text style={[styles.inviteResponseDetail, { color: themeColors.textSecondary }]}>
+            {detail}
+          </Text>
+        </View>
+      </View>
+      {isFailed && (
+        <View style={styles.inviteResponseActions}>
+          <Button
+            title="Try Again"
+            onPress={() => outbox.retry(entry.id)}
+            variant="ghost"
+            size="small"
+          />
+          <Button
+            title="Dismiss"
+            onPress={() => outbox.discard(entry.id)}
+            variant="ghost"
+            size="small"
+          />
+        </View>
+      )}
+    </Card>
+  );
+}
+
 function QuickActionCard({
   icon,
   title,
@@ -268,6 +414,56 @@ const styles = StyleSheet.create({
   name: {
     ...typography.title1,
   },
+  connectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  connectionText: {
+    ...typography.footnote,
+  },
+  protocolError: {
+    marginBottom: spacing.md,
+    borderColor: colors.warning,
+  },
+  protocolErrorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  protocolErrorText: {
+    ...typography.subhead,
+    flex: 1,
+  },
+  inviteResponse: {
+    marginBottom: spacing.md,
+  },
+  inviteResponseFailed: {
+    marginBottom: spacing.md,
+    borderColor: colors.error,
+  },
+  inviteResponseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  inviteResponseInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  inviteResponseTitle: {
+    ...typography.headline,
+  },
+  inviteResponseDetail: {
+    ...typography.footnote,
+  },
+  inviteResponseActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
   partnerCard: {
     marginBottom: spacing.lg,
     borderWidth: 1,
@@ -337,6 +533,24 @@ const styles = StyleSheet.create({
     ...typography.title3,
     marginBottom: spacing.md,
   },
+  sharingCard: {
+    marginBottom: spacing.md,
+  },
+  sharingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  sharingInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  sharingTitle: {
+    ...typography.headline,
+  },
+  sharingSubtitle: {
+    ...typography.footnote,
+  },
   actionsGrid: {
     flexDirection: 'row',
     gap: spacing.md,
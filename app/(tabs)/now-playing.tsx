@@ -5,7 +5,7 @@
  * Beautiful album artwork display with partner status
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -16,12 +16,28 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSocket } from '@/contexts/SocketContext';
-import { Button, Avatar, StatusBadge } from '@/components/ui';
+import { usePlayback, showPlaybackError } from '@/contexts/PlaybackContext';
+import { api, SpotifyDevice } from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { playback } from '@/lib/playback';
+import { queryKeys } from '@/lib/queryCache';
+import type { PreferredDevice } from '@/lib/storage';
+import { useQuery } from '@/hooks/useQuery';
+import { usePlaybackProgress } from '@/hooks/usePlaybackProgress';
+import {
+  Button,
+  Avatar,
+  StatusBadge,
+  TransportControls,
+  DevicePickerSheet,
+  ProgressScrubber,
+} from '@/components/ui';
 import {
   colors,
   gradients,
@@ -33,39 +49,56 @@ import {
 } from '@/constants';
 
 export default function NowPlayingScreen() {
-  const { partnerId } = useAuth();
+  const { partnerId, partner } = useAuth();
+  const partnerName = partner?.displayName ?? 'Your partner';
+  const partnerImage = partner?.images?.[0]?.url;
   const {
     isPartnerOnline,
     partnerStatus,
     joinPartnerSession,
-    onSyncCommand,
-    onSessionJoined,
+    session,
+    role,
+    takeControl,
+    leaveSession,
+    sendTransport,
   } = useSocket();
+  const { refresh: refreshPlayback, togglePlay } = usePlayback();
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
-  // Listen for sync commands
+  // Device picker. The list is only fetched while the sheet is open.
+  const [showDevices, setShowDevices] = useState(false);
+  const [preferredDevice, setPreferredDevice] = useState<PreferredDevice | null>(null);
+  const devicesQuery = useQuery(
+    queryKeys.devices(),
+    (signal) => api.getDevices({ signal }),
+    { enabled: showDevices, ttlMs: 10 * 1000 }
+  );
+
   useEffect(() => {
-    const unsubscribeSync = onSyncCommand((command) => {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert(
-        'Synced!',
-        `Now playing "${command.trackName}" by ${command.artistName}`,
-        [{ text: 'OK' }]
-      );
-      // In a full implementation, this would trigger Spotify playback
-    });
+    playback.getPreferredDevice().then(setPreferredDevice);
+  }, []);
 
-    const unsubscribeJoined = onSessionJoined((data) => {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert('Partner Joined!', data.message);
-    });
+  const handleSelectDevice = async (device: SpotifyDevice) => {
+    try {
+      await playback.selectDevice(device);
+      setPreferredDevice({ id: device.id, name: device.name });
+      setShowDevices(false);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error('Error switching device:', error);
+      Alert.alert(`Couldn't switch to ${device.name}`, getErrorMessage(error));
+    }
+  };
 
-    return () => {
-      unsubscribeSync();
-      unsubscribeJoined();
-    };
-  }, [onSyncCommand, onSessionJoined]);
+  // Following the partner happens in PlaybackProvider, which may send us
+  // here to pick a device
+  const { chooseDevice } = useLocalSearchParams<{ chooseDevice?: string }>();
+  useEffect(() => {
+    if (!chooseDevice) return;
+    setShowDevices(true);
+    router.setParams({ chooseDevice: undefined });
+  }, [chooseDevice]);
 
   const handleJoinPartner = () => {
     if (!partnerStatus?.isListening) {
@@ -79,32 +112,140 @@ export default function NowPlayingScreen() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   };
 
-  // Partner is listening - show their current track
-  if (partnerStatus?.isListening) {
+  const handleTakeControl = async () => {
+    const ok = await takeControl();
+    if (ok) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    } else {
+      Alert.alert("Couldn't take control", 'Please try again in a moment.');
+    }
+  };
+
+  // As host, every action is also broadcast so followers can mirror it
+  const handlePlayPause = async () => {
+    try {
+      await togglePlay();
+    } catch (error) {
+      console.error('Error toggling playback:', error);
+      showPlaybackError("Couldn't control playback", error);
+    }
+  };
+
+  const handleSkip = async (direction: 'next' | 'previous') => {
+    try {
+      const state = await playback.skip(direction);
+      if (role === 'host' && state?.track) {
+        sendTransport({
+          type: 'track',
+          positionMs: state.positionMs,
+          trackUri: state.track.uri,
+          trackName: state.track.name,
+          artistName: state.track.artists,
+        });
+      }
+      refreshPlayback();
+    } catch (error) {
+      console.error('Error skipping track:', error);
+      showPlaybackError("Couldn't skip", error);
+    }
+  };
+
+  const handleSeek = async (positionMs: number) => {
+    try {
+      await playback.seek(positionMs);
+      sendTransport({ type: 'seek', positionMs });
+      refreshPlayback();
+    } catch (error) {
+      console.error('Error seeking:', error);
+      showPlaybackError("Couldn't seek", error);
+    }
+  };
+
+  const handleLeaveSession = () => {
+    Alert.alert('Leave session?', 'Your playback will stop following your partner.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: leaveSession },
+    ]);
+  };
+
+  // In a session, the session's playback is kept current by every transport
+  // action, so it wins over the partner's last status report. Artwork and
+  // duration only come with the status, so they're used while it matches.
+  const nowPlaying = session?.playback ?? partnerStatus;
+  const statusMatches = !!partnerStatus && partnerStatus.trackUri === nowPlaying?.trackUri;
+  const albumImage = statusMatches ? partnerStatus.albumImage : undefined;
+  const durationMs = statusMatches ? partnerStatus.durationMs : undefined;
+  const positionMs = usePlaybackProgress(
+    nowPlaying?.trackUri ? { ...nowPlaying, durationMs } : null
+  );
+
+  // Where playback goes, and the sheet to change it
+  const deviceSelector = (
+    <>
+      <TouchableOpacity
+        style={styles.deviceButton}
+        onPress={() => setShowDevices(true)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="phone-portrait-outline" size={16} color={themeColors.textSecondary} />
+        <Text style={[styles.deviceButtonText, { color: themeColors.textSecondary }]}>
+          {preferredDevice ? `Playing on ${preferredDevice.name}` : 'Choose a device'}
+        </Text>
+      </TouchableOpacity>
+
+      <DevicePickerSheet
+        visible={showDevices}
+        devices={devicesQuery.data?.devices ?? []}
+        selectedId={preferredDevice?.id ?? null}
+        isLoading={devicesQuery.isLoading}
+        error={devicesQuery.error ? getErrorMessage(devicesQuery.error) : null}
+        onSelect={handleSelectDevice}
+        onRefresh={() => {
+          devicesQuery.refetch().catch(() => {});
+        }}
+        onClose={() => setShowDevices(false)}
+      />
+    </>
+  );
+
+  // In a session, or the partner is listening - show the shared track. The
+  // session UI doesn't depend on the partner broadcasting (sharing may be off,
+  // or their status not resent yet after a reconnect).
+  if (session || partnerStatus?.isListening) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
         <View style={styles.content}>
           {/* Partner Listening Card */}
           <View style={styles.partnerListeningBanner}>
-            <Avatar name="Partner" size="sm" showStatus isOnline />
+            <Avatar
+              uri={partnerImage}
+              name={partnerName}
+              size="sm"
+              showStatus
+              isOnline={isPartnerOnline || !!partnerStatus?.isListening}
+            />
             <View style={styles.partnerListeningInfo}>
               <Text style={[styles.partnerListeningLabel, { color: themeColors.textSecondary }]}>
-                Your partner is listening to
+                {session ? `Listening together with ${partnerName}` : `${partnerName} is listening to`}
               </Text>
             </View>
           </View>
 
           {/* Album Artwork */}
           <View style={styles.artworkContainer}>
-            <LinearGradient
-              colors={[colors.primaryMuted, colors.accentLight]}
-              style={styles.artworkGradient}
-            >
-              <View style={styles.artworkPlaceholder}>
-                <Ionicons name="musical-note" size={80} color={colors.primary} />
-              </View>
-            </LinearGradient>
-            
+            {albumImage ? (
+              <Image source={{ uri: albumImage }} style={[styles.artwork, shadows.xl]} />
+            ) : (
+              <LinearGradient
+                colors={[colors.primaryMuted, colors.accentLight]}
+                style={styles.artworkGradient}
+              >
+                <View style={styles.artworkPlaceholder}>
+                  <Ionicons name="musical-note" size={80} color={colors.primary} />
+                </View>
+              </LinearGradient>
+            )}
+
             {/* Sync indicator */}
             <View style={styles.syncBadge}>
               <Ionicons name="heart" size={16} color="#FFF" />
@@ -114,38 +255,83 @@ export default function NowPlayingScreen() {
           {/* Track Info */}
           <View style={styles.trackInfo}>
             <Text style={[styles.trackName, { color: themeColors.text }]}>
-              {partnerStatus.trackName || 'Unknown Track'}
+              {nowPlaying?.trackName || 'Unknown Track'}
             </Text>
             <Text style={[styles.artistName, { color: themeColors.textSecondary }]}>
-              {partnerStatus.artistName || 'Unknown Artist'}
+              {nowPlaying?.artistName || 'Unknown Artist'}
             </Text>
-            {partnerStatus.playlistName && (
+            {nowPlaying?.playlistName && (
               <Text style={[styles.playlistName, { color: themeColors.textMuted }]}>
-                from {partnerStatus.playlistName}
+                from {nowPlaying.playlistName}
               </Text>
             )}
           </View>
 
-          {/* Progress Placeholder */}
+          {/* Progress - only the host can seek for everyone */}
           <View style={styles.progressContainer}>
-            <View style={[styles.progressTrack, { backgroundColor: themeColors.border }]}>
-              <View style={[styles.progressFill, { width: '45%' }]} />
-            </View>
+            <ProgressScrubber
+              positionMs={positionMs}
+              durationMs={durationMs}
+              onSeek={role === 'host' ? handleSeek : undefined}
+            />
           </View>
 
-          {/* Join Session Button */}
-          <Button
-            title="Listen Together"
-            onPress={handleJoinPartner}
-            variant="primary"
-            size="large"
-            icon={<Ionicons name="heart" size={20} color="#FFF" />}
-            style={styles.joinButton}
-          />
+          {session ? (
+            // In a shared session: one of us is in control
+            <>
+              <View style={styles.roleRow}>
+                <Ionicons
+                  name={role === 'host' ? 'radio-outline' : 'headset-outline'}
+                  size={16}
+                  color={colors.primary}
+                />
+                <Text style={[styles.roleText, { color: themeColors.textSecondary }]}>
+                  {role === 'host' ? "You're in control" : 'Following your partner'}
+                </Text>
+              </View>
+              <TransportControls
+                isPlaying={session.playback?.isPlaying ?? false}
+                onPlayPause={handlePlayPause}
+                onPrevious={() => handleSkip('previous')}
+                onNext={() => handleSkip('next')}
+                disabled={role !== 'host'}
+              />
+              {role === 'follower' && (
+                <Button
+                  title="Take Control"
+                  onPress={handleTakeControl}
+                  variant="primary"
+                  size="large"
+                  icon={<Ionicons name="hand-left-outline" size={20} color="#FFF" />}
+                  style={styles.joinButton}
+                />
+              )}
+              <Button
+                title="Leave Session"
+                onPress={handleLeaveSession}
+                variant="ghost"
+                style={styles.joinButton}
+              />
+            </>
+          ) : (
+            <>
+              {/* Join Session Button */}
+              <Button
+                title="Listen Together"
+                onPress={handleJoinPartner}
+                variant="primary"
+                size="large"
+                icon={<Ionicons name="heart" size={20} color="#FFF" />}
+                style={styles.joinButton}
+              />
+
+              <Text style={[styles.joinHint, { color: themeColors.textMuted }]}>
+                Tap to sync your playback with your partner
+              </Text>
+            </>
+          )}
 
-          <Text style={[styles.joinHint, { color: themeColors.textMuted }]}>
-            Tap to sync your playback with your partner
-          </Text>
+          {deviceSelector}
         </View>
       </SafeAreaView>
     );
@@ -158,10 +344,16 @@ export default function NowPlayingScreen() {
         {/* Status Header */}
         {partnerId && (
           <View style={styles.partnerStatusCard}>
-            <Avatar name="Partner" size="md" showStatus isOnline={isPartnerOnline} />
+            <Avatar
+              uri={partnerImage}
+              name={partnerName}
+              size="md"
+              showStatus
+              isOnline={isPartnerOnline}
+            />
             <View style={styles.partnerStatusInfo}>
               <Text style={[styles.partnerStatusLabel, { color: themeColors.text }]}>
-                Your Partner
+                {partner?.displayName ?? 'Your Partner'}
               </Text>
               <StatusBadge status={isPartnerOnline ? 'online' : 'offline'} size="sm" />
             </View>
@@ -197,6 +389,8 @@ export default function NowPlayingScreen() {
           <Ionicons name="heart" size={28} color={colors.primaryLight} />
           <Ionicons name="heart-outline" size={20} color={colors.primaryLight} />
         </View>
+
+        {deviceSelector}
       </View>
     </SafeAreaView>
   );
@@ -284,19 +478,31 @@ const styles = StyleSheet.create({
     width: '100%',
     marginBottom: spacing.xl,
   },
-  progressTrack: {
-    height: 4,
-    borderRadius: 2,
-    overflow: 'hidden',
-  },
-  progressFill: {
-    height: '100%',
-    backgroundColor: colors.primary,
-  },
   joinButton: {
     width: '100%',
     marginBottom: spacing.sm,
   },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  roleText: {
+    ...typography.subhead,
+  },
+  deviceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.lg,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  deviceButtonText: {
+    ...typography.footnote,
+    fontWeight: '500',
+  },
   joinHint: {
     ...typography.footnote,
     textAlign: 'center',
@@ -4,7 +4,7 @@
  * Shows all shared playlists with ability to create new ones
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -16,13 +16,20 @@ import {
   Modal,
   useColorScheme,
   RefreshControl,
+  Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { api, Playlist } from '@/lib/api';
-import { Card, Button } from '@/components/ui';
+import { CancelledError } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryCache';
+import { outbox, OutboxEntry } from '@/lib/outbox';
+import { useInfiniteQuery } from '@/hooks/useInfiniteQuery';
+import { useOutbox } from '@/hooks/useOutbox';
+import { Card, Button, OfflineBanner } from '@/components/ui';
 import {
   colors,
   getColors,
@@ -33,58 +40,131 @@ import {
   shadows,
 } from '@/constants';
 
+type PlaylistItem =
+  | { kind: 'playlist'; playlist: Playlist }
+  | { kind: 'pending'; entry: OutboxEntry; name: string };
+
 export default function PlaylistsScreen() {
-  const { spotifyId } = useAuth();
+  const { isAuthenticated } = useAuth();
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
-  const [playlists, setPlaylists] = useState<Playlist[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newPlaylistName, setNewPlaylistName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
-  const fetchPlaylists = useCallback(async () => {
-    if (!spotifyId) return;
-    
+  // Cached playlists render instantly; stale ones refresh in the background.
+  // The last-known list is persisted so it is still there offline, and more
+  // pages load as the grid scrolls.
+  const {
+    pages,
+    updatedAt,
+    isOffline,
+    refetch,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery(
+    queryKeys.playlists(),
+    (cursor, signal) => api.getPlaylists({ cursor, signal }),
+    (page) => page.nextCursor,
+    { enabled: isAuthenticated, persist: true }
+  );
+  const playlists = pages?.flatMap((page) => page.playlists) ?? [];
+
+  // Playlists created offline show up straight away, marked as pending
+  const outboxEntries = useOutbox();
+  const pendingPlaylists: PlaylistItem[] = outboxEntries.flatMap((entry) =>
+    entry.mutation.type === 'createPlaylist'
+      ? [{ kind: 'pending', entry, name: entry.mutation.name }]
+      : []
+  );
+  const items: PlaylistItem[] = [
+    ...pendingPlaylists,
+    ...playlists.map((playlist): PlaylistItem => ({ kind: 'playlist', playlist })),
+  ];
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
     try {
-      const response = await api.getPlaylists(spotifyId);
-      setPlaylists(response.playlists);
+      await refetch();
     } catch (error) {
-      console.error('Error fetching playlists:', error);
+      if (!(error instanceof CancelledError)) {
+        console.error('Error fetching playlists:', error);
+      }
     } finally {
-      setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [spotifyId]);
-
-  useEffect(() => {
-    fetchPlaylists();
-  }, [fetchPlaylists]);
-
-  const handleRefresh = () => {
-    setIsRefreshing(true);
-    fetchPlaylists();
   };
 
   const handleCreatePlaylist = async () => {
-    if (!spotifyId || !newPlaylistName.trim()) return;
+    if (!isAuthenticated || !newPlaylistName.trim()) return;
 
     setIsCreating(true);
     try {
-      await api.createPlaylist(spotifyId, newPlaylistName.trim());
+      // Applied immediately when online, otherwise queued and shown as pending
+      await outbox.submit({ type: 'createPlaylist', name: newPlaylistName.trim() });
       setNewPlaylistName('');
       setShowCreateModal(false);
-      fetchPlaylists();
-    } catch (error) {
+    } catch (error: any) {
+      if (error instanceof CancelledError) return;
       console.error('Error creating playlist:', error);
+      Alert.alert('Error', error.message || 'Failed to create playlist');
     } finally {
       setIsCreating(false);
     }
   };
 
-  const renderPlaylist = ({ item }: { item: Playlist }) => (
+  const handlePendingPress = (entry: OutboxEntry) => {
+    if (entry.status !== 'failed') return;
+
+    Alert.alert(
+      "Couldn't create playlist",
+      entry.error ?? 'Something went wrong',
+      [
+        { text: 'Discard', style: 'destructive', onPress: () => outbox.discard(entry.id) },
+        { text: 'Retry', onPress: () => outbox.retry(entry.id) },
+      ]
+    );
+  };
+
+  const renderPending = (entry: OutboxEntry, name: string) => {
+    const isFailed = entry.status === 'failed';
+
+    return (
+      <TouchableOpacity
+        style={[styles.playlistCard, styles.pendingCard, { backgroundColor: themeColors.surface }]}
+        onPress={() => handlePendingPress(entry)}
+        activeOpacity={isFailed ? 0.7 : 1}
+      >
+        <View style={[styles.playlistImagePlaceholder]}>
+          <Ionicons
+            name={isFailed ? 'alert-circle-outline' : 'cloud-upload-outline'}
+            size={32}
+            color={isFailed ? colors.error : colors.primary}
+          />
+        </View>
+        <Text
+          style={[styles.playlistName, { color: themeColors.text }]}
+          numberOfLines={2}
+        >
+          {name}
+        </Text>
+        <View style={[styles.pendingBadge, isFailed && styles.failedBadge]}>
+          <Text style={[styles.pendingBadgeText, isFailed && styles.failedBadgeText]}>
+            {isFailed ? 'Failed · Tap to retry' : 'Pending'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderItem = ({ item }: { item: PlaylistItem }) =>
+    item.kind === 'pending'
+      ? renderPending(item.entry, item.name)
+      : renderPlaylist(item.playlist);
+
+  const renderPlaylist = (item: Playlist) => (
     <TouchableOpacity
       style={[styles.playlistCard, { backgroundColor: themeColors.surface }]}
       onPress={() => router.push(`/playlist/${item.id}`)}
@@ -124,19 +204,29 @@ export default function PlaylistsScreen() {
         </TouchableOpacity>
       </View>
 
+      {isOffline && <OfflineBanner lastSyncedAt={updatedAt} />}
+
       {/* Playlists Grid */}
       <FlatList
-        data={playlists}
-        renderItem={renderPlaylist}
-        keyExtractor={(item) => item.id}
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => (item.kind === 'pending' ? item.entry.id : item.playlist.id)}
         numColumns={2}
         contentContainerStyle={styles.listContent}
         columnWrapperStyle={styles.row}
         showsVerticalScrollIndicator={false}
+        onEndReached={fetchNextPage}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <ActivityIndicator style={styles.footerLoader} color={colors.primary} />
+          ) : null
+        }
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
             onRefresh={handleRefresh}
+            enabled={!isOffline}
             tintColor={colors.primary}
           />
         }
@@ -148,17 +238,21 @@ export default function PlaylistsScreen() {
               color={colors.primaryLight}
             />
             <Text style={[styles.emptyTitle, { color: themeColors.text }]}>
-              No playlists yet
+              {isOffline ? "You're offline" : 'No playlists yet'}
             </Text>
             <Text style={[styles.emptySubtitle, { color: themeColors.textSecondary }]}>
-              Create your first shared playlist together
+              {isOffline
+                ? 'Your playlists will appear once you reconnect'
+                : 'Create your first shared playlist together'}
             </Text>
-            <Button
-              title="Create Playlist"
-              onPress={() => setShowCreateModal(true)}
-              variant="primary"
-              style={styles.emptyButton}
-            />
+            {!isOffline && (
+              <Button
+                title="Create Playlist"
+                onPress={() => setShowCreateModal(true)}
+                variant="primary"
+                style={styles.emptyButton}
+              />
+            )}
           </View>
         }
       />
@@ -251,6 +345,9 @@ const styles = StyleSheet.create({
   row: {
     gap: spacing.md,
   },
+  footerLoader: {
+    paddingVertical: spacing.lg,
+  },
   playlistCard: {
     flex: 1,
     borderRadius: borderRadius.xl,
@@ -280,6 +377,29 @@ const styles = StyleSheet.create({
   playlistTracks: {
     ...typography.caption1,
   },
+  pendingCard: {
+    opacity: 0.8,
+  },
+  pendingBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primaryMuted,
+  },
+  pendingBadgeText: {
+    ...typography.caption2,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  failedBadge: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  failedBadgeText: {
+    color: colors.error,
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
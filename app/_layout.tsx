@@ -10,6 +10,7 @@ import { StatusBar } from 'expo-status-bar';
 import * as SplashScreen from 'expo-splash-screen';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { SocketProvider } from '@/contexts/SocketContext';
+import { PlaybackProvider } from '@/contexts/PlaybackContext';
 import { colors } from '@/constants';
 
 // Prevent splash screen from auto-hiding
@@ -27,33 +28,42 @@ export default function RootLayout() {
   return (
     <AuthProvider>
       <SocketProvider>
-        <StatusBar style="light" />
-        <Stack
-          screenOptions={{
-            headerShown: false,
-            contentStyle: { backgroundColor: colors.light.background },
-            animation: 'slide_from_right',
-          }}
-        >
-          <Stack.Screen name="index" />
-          <Stack.Screen name="(tabs)" />
-          <Stack.Screen name="invite" />
-          <Stack.Screen
-            name="invite/[code]"
-            options={{
-              presentation: 'modal',
-              animation: 'slide_from_bottom',
+        <PlaybackProvider>
+          <StatusBar style="light" />
+          <Stack
+            screenOptions={{
+              headerShown: false,
+              contentStyle: { backgroundColor: colors.light.background },
+              animation: 'slide_from_right',
             }}
-          />
-          <Stack.Screen name="partner" />
-        <Stack.Screen name="playlist/[id]" />
-        <Stack.Screen
-          name="auth/callback"
-          options={{
-            headerShown: false,
-          }}
-        />
-      </Stack>
+          >
+            <Stack.Screen name="index" />
+            <Stack.Screen name="(tabs)" />
+            <Stack.Screen name="invite" />
+            <Stack.Screen
+              name="invite/[code]"
+              options={{
+                presentation: 'modal',
+                animation: 'slide_from_bottom',
+              }}
+            />
+            <Stack.Screen
+              name="join"
+              options={{
+                presentation: 'modal',
+                animation: 'slide_from_bottom',
+              }}
+            />
+            <Stack.Screen name="partner" />
+            <Stack.Screen name="playlist/[id]" />
+            <Stack.Screen
+              name="auth/callback"
+              options={{
+                headerShown: false,
+              }}
+            />
+          </Stack>
+        </PlaybackProvider>
       </SocketProvider>
     </AuthProvider>
   );
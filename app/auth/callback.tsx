@@ -1,8 +1,8 @@
 /**
  * Auth Callback Screen
  * 
- * Handles the OAuth callback from Spotify
- * Extracts user info and redirects to home
+ * Handles the echoes://auth/callback redirect from Spotify
+ * Completes the PKCE code exchange and redirects to home
  */
 
 import React, { useEffect, useState } from 'react';
@@ -15,13 +15,15 @@ import {
 import { useLocalSearchParams, router } from 'expo-router';
 import { GradientBackground, Button } from '@/components/ui';
 import { useAuth } from '@/contexts/AuthContext';
-import { api } from '@/lib/api';
-import { setStoredSpotifyId, setStoredUser, StoredUser } from '@/lib/storage';
 import { typography, spacing } from '@/constants';
 
 export default function AuthCallbackScreen() {
-  const params = useLocalSearchParams();
-  const { refreshUser } = useAuth();
+  const params = useLocalSearchParams<{
+    code?: string;
+    state?: string;
+    error?: string;
+  }>();
+  const { handleAuthRedirect } = useAuth();
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -30,34 +32,11 @@ export default function AuthCallbackScreen() {
 
   const handleCallback = async () => {
     try {
-      // The backend returns JSON with user info
-      // We need to parse the spotifyId from the response
-      const spotifyId = params.spotifyId as string;
-      
-      if (!spotifyId) {
-        // If no spotifyId, try to get it from the URL hash or other params
-        setError('Authentication failed. Please try again.');
-        return;
-      }
-
-      // Fetch user profile from backend
-      const response = await api.getMe(spotifyId);
-      
-      const user: StoredUser = {
-        id: response.user.id,
-        spotifyId: response.user.id,
-        displayName: response.user.displayName,
-        email: response.user.email,
-        images: response.user.images,
-        partnerId: response.partnerId,
-      };
-
-      // Store credentials
-      await setStoredSpotifyId(spotifyId);
-      await setStoredUser(user);
-
-      // Refresh auth state
-      await refreshUser();
+      await handleAuthRedirect({
+        code: params.code,
+        state: params.state,
+        error: params.error,
+      });
 
       // Navigate to home
       router.replace('/(tabs)');
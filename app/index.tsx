@@ -22,7 +22,11 @@ import { useAuth } from '@/contexts/AuthContext';
 import { typography, spacing, sizes } from '@/constants';
 
 export default function AuthScreen() {
-  const { isLoading, isAuthenticated, login } = useAuth();
+  const { isLoading, isAuthenticated, authError, login } = useAuth();
+
+  // Closing the browser is deliberate - only surface real failures
+  const errorMessage =
+    authError && authError.code !== 'cancelled' ? authError.message : null;
 
   // Redirect to home if authenticated
   useEffect(() => {
@@ -76,9 +80,13 @@ export default function AuthScreen() {
             textStyle={styles.spotifyButtonText}
           />
           
-          <Text style={styles.disclaimer}>
-            Share your music moments with the one you love
-          </Text>
+          {errorMessage ? (
+            <Text style={styles.error}>{errorMessage}</Text>
+          ) : (
+            <Text style={styles.disclaimer}>
+              Share your music moments with the one you love
+            </Text>
+          )}
         </View>
       </View>
     </GradientBackground>
@@ -149,4 +157,10 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.6)',
     textAlign: 'center',
   },
+  error: {
+    ...typography.footnote,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    fontWeight: '600',
+  },
 });
@@ -1,15 +1,19 @@
 /**
  * Invite Screen
  * 
- * Create and manage partnership invites
+ * Create and manage partnership invites: the current link with a live
+ * countdown, revoking or regenerating it, and earlier invites by status.
+ * Acceptance and declines arrive over the socket while the screen is open.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Share,
+  Animated,
+  ScrollView,
   TouchableOpacity,
   useColorScheme,
   Alert,
@@ -20,56 +24,221 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, Invite } from '@/lib/api';
-import { Card, Button } from '@/components/ui';
+import { useSocket } from '@/contexts/SocketContext';
+import { api, Invite, InviteStatus } from '@/lib/api';
+import { CancelledError } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryCache';
+import { outbox, OutboxMutation } from '@/lib/outbox';
+import { useQuery } from '@/hooks/useQuery';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useCountdown } from '@/hooks/useCountdown';
+import { Card, Button, QrCode, GradientBackground, PartnerAvatars } from '@/components/ui';
 import {
   colors,
   getColors,
   typography,
   spacing,
   borderRadius,
+  shadows,
 } from '@/constants';
 
+const QR_SIZE = 220;
+
+type InviteChange = Extract<OutboxMutation, { type: 'revokeInvite' | 'regenerateInvite' }>;
+
+// The backend only marks invites expired when it next looks at them
+function inviteStatus(invite: Invite, now: number): InviteStatus {
+  const status = invite.status ?? 'pending';
+  if (status === 'pending' && Date.parse(invite.expiresAt) <= now) return 'expired';
+  return status;
+}
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  pending: 'Active',
+  expired: 'Expired',
+  declined: 'Declined',
+  accepted: 'Accepted',
+  revoked: 'Revoked',
+};
+
+const STATUS_COLORS: Record<InviteStatus, string> = {
+  pending: colors.primary,
+  expired: colors.offline,
+  declined: colors.error,
+  accepted: colors.success,
+  revoked: colors.offline,
+};
+
+function formatTimeRemaining(ms: number): string {
+  if (ms <= 0) return 'Expired';
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}h ${minutes}m ${seconds}s remaining`
+    : `${minutes}m ${seconds}s remaining`;
+}
+
+function formatCreatedAt(iso?: string): string {
+  const date = iso ? new Date(iso) : null;
+  if (!date || Number.isNaN(date.getTime())) return '';
+  return `Created ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+}
+
+interface InviteRowProps {
+  invite: Invite;
+  status: InviteStatus;
+  onRevoke: (invite: Invite) => void;
+}
+
+// An invite other than the current one. Pending ones can still be revoked.
+function InviteRow({ invite, status, onRevoke }: InviteRowProps) {
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+  const remaining = useCountdown(status === 'pending' ? Date.parse(invite.expiresAt) : null);
+
+  return (
+    <View style={[styles.inviteRow, { borderBottomColor: themeColors.divider }]}>
+      <View style={styles.inviteRowInfo}>
+        <Text style={[styles.inviteRowCode, { color: themeColors.text }]} numberOfLines={1}>
+          {invite.code}
+        </Text>
+        <Text style={[styles.inviteRowMeta, { color: themeColors.textMuted }]}>
+          {remaining !== null ? formatTimeRemaining(remaining) : formatCreatedAt(invite.createdAt)}
+        </Text>
+      </View>
+      <View style={[styles.statusPill, { borderColor: STATUS_COLORS[status] }]}>
+        <Text style={[styles.statusText, { color: STATUS_COLORS[status] }]}>
+          {STATUS_LABELS[status]}
+        </Text>
+      </View>
+      {status === 'pending' && (
+        <TouchableOpacity
+          onPress={() => onRevoke(invite)}
+          accessibilityLabel={`Revoke invite ${invite.code}`}
+        >
+          <Ionicons name="close-circle-outline" size={22} color={themeColors.textSecondary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+// Spacing of the heartbeat taps after the success haptic
+const HEARTBEAT_MS = 300;
+
+// Shown to the inviter the moment their invite is accepted
+function Celebration() {
+  const { user, partner } = useAuth();
+  const scale = useRef(new Animated.Value(0.3)).current;
+
+  useEffect(() => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const timers = [1, 2].map((beat) =>
+      setTimeout(() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium), beat * HEARTBEAT_MS)
+    );
+    Animated.spring(scale, { toValue: 1, friction: 3, useNativeDriver: true }).start();
+    return () => timers.forEach(clearTimeout);
+  }, [scale]);
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.celebration}>
+          <Animated.View style={{ transform: [{ scale }] }}>
+            <Ionicons name="heart" size={72} color="#FFF" />
+          </Animated.View>
+
+          <PartnerAvatars
+            user1Uri={user?.images?.[0]?.url}
+            user1Name={user?.displayName}
+            user2Uri={partner?.images?.[0]?.url}
+            user2Name={partner?.displayName}
+            size="xl"
+          />
+
+          <Text style={styles.celebrationTitle}>You&apos;re connected!</Text>
+          <Text style={styles.celebrationSubtitle}>
+            {partner?.displayName ?? 'Your partner'} accepted your invite. Time to press play
+            together.
+          </Text>
+
+          <Button
+            title="Let's Listen"
+            onPress={() => router.replace('/(tabs)')}
+            variant="secondary"
+            size="large"
+            style={styles.celebrationButton}
+          />
+        </View>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
 export default function InviteScreen() {
-  const { spotifyId, partnerId } = useAuth();
+  const { isAuthenticated, partnerId } = useAuth();
+  const { onPartnershipCreated, onInviteDeclined } = useSocket();
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
-  const [invite, setInvite] = useState<Invite | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [changingCode, setChangingCode] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [isCelebrating, setIsCelebrating] = useState(false);
+  const [declinedCode, setDeclinedCode] = useState<string | null>(null);
 
-  // Check for existing invites on mount
-  useEffect(() => {
-    fetchExistingInvite();
-  }, []);
+  // The socket refreshes the user and the invite list; this is the moment
+  useEffect(() => onPartnershipCreated(() => setIsCelebrating(true)), [onPartnershipCreated]);
 
-  const fetchExistingInvite = async () => {
-    if (!spotifyId) return;
-    
-    setIsLoading(true);
-    try {
-      const response = await api.getMyInvites(spotifyId);
-      if (response.invites.length > 0) {
-        setInvite(response.invites[0]);
-      }
-    } catch (error) {
-      console.error('Error fetching invites:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  useEffect(
+    () =>
+      onInviteDeclined((data) => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        setDeclinedCode(data.inviteCode);
+      }),
+    [onInviteDeclined]
+  );
+
+  // Existing invites, newest first, served from cache when we have them
+  const { data } = useQuery(
+    queryKeys.myInvites(),
+    (signal) => api.getMyInvites({ signal }),
+    { enabled: isAuthenticated }
+  );
+  const invites = data?.invites ?? [];
+
+  // The newest invite that can still be accepted is the one to share
+  const now = Date.now();
+  const invite = invites.find((candidate) => inviteStatus(candidate, now) === 'pending') ?? null;
+  const earlierInvites = invites.filter((candidate) => candidate !== invite);
+
+  // Re-renders every second, which also flips the invite to expired on time
+  const remaining = useCountdown(invite ? Date.parse(invite.expiresAt) : null);
+
+  // Invite mutations made while offline, waiting in the outbox
+  const outboxEntries = useOutbox();
+  const queuedInvite = outboxEntries.find((entry) => entry.mutation.type === 'createInvite');
+  const queuedChange = outboxEntries.find(
+    (entry) =>
+      entry.mutation.type === 'revokeInvite' || entry.mutation.type === 'regenerateInvite'
+  );
 
   const createInvite = async () => {
-    if (!spotifyId) return;
+    if (!isAuthenticated) return;
 
     setIsCreating(true);
     try {
-      const response = await api.createInvite(spotifyId);
-      setInvite(response.invite);
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // The outbox adds the new invite to the cache once it is created
+      const outcome = await outbox.submit({ type: 'createInvite' });
+      if (outcome.status === 'applied') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
     } catch (error: any) {
+      if (error instanceof CancelledError) return;
       Alert.alert('Error', error.message || 'Failed to create invite');
     } finally {
       setIsCreating(false);
@@ -99,21 +268,55 @@ export default function InviteScreen() {
     }
   };
 
-  const getTimeRemaining = () => {
-    if (!invite) return '';
-    
-    const expiresAt = new Date(invite.expiresAt);
-    const now = new Date();
-    const diff = expiresAt.getTime() - now.getTime();
-    
-    if (diff <= 0) return 'Expired';
-    
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    
-    return `${hours}h ${minutes}m remaining`;
+  // The outbox updates the cached list once the change is applied
+  const changeInvite = async (mutation: InviteChange) => {
+    setChangingCode(mutation.code);
+    try {
+      const outcome = await outbox.submit(mutation);
+      if (outcome.status === 'applied') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (error: any) {
+      if (error instanceof CancelledError) return;
+      Alert.alert('Error', error.message || "Couldn't update your invite");
+    } finally {
+      setChangingCode(null);
+    }
+  };
+
+  const confirmRevoke = (target: Invite) => {
+    Alert.alert(
+      'Revoke invite?',
+      'The link will stop working, so no one can use it to connect with you.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: () => changeInvite({ type: 'revokeInvite', code: target.code }),
+        },
+      ]
+    );
+  };
+
+  const confirmRegenerate = (target: Invite) => {
+    Alert.alert(
+      'Get a new link?',
+      'Your current link will stop working and a new one will be created.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'New Link',
+          onPress: () => changeInvite({ type: 'regenerateInvite', code: target.code }),
+        },
+      ]
+    );
   };
 
+  if (isCelebrating) {
+    return <Celebration />;
+  }
+
   // If user already has a partner
   if (partnerId) {
     return (
@@ -135,8 +338,14 @@ export default function InviteScreen() {
               Already connected
             </Text>
             <Text style={[styles.hasPartnerSubtitle, { color: themeColors.textSecondary }]}>
-              You already have a partner. To invite someone new, you&apos;ll need to disconnect first.
+              You already have a partner. To invite someone new, disconnect from them first.
             </Text>
+            <Button
+              title="Manage Partner"
+              onPress={() => router.replace('/partner')}
+              variant="secondary"
+              style={styles.hasPartnerButton}
+            />
           </View>
         </View>
       </SafeAreaView>
@@ -156,27 +365,35 @@ export default function InviteScreen() {
         <View style={{ width: 28 }} />
       </View>
 
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {declinedCode && (
+          <Card variant="outlined" padding="md" style={styles.declinedCard}>
+            <View style={styles.declinedRow}>
+              <Ionicons name="heart-dislike-outline" size={20} color={themeColors.textSecondary} />
+              <Text style={[styles.declinedText, { color: themeColors.textSecondary }]}>
+                Your invite {declinedCode} was declined.
+              </Text>
+              <TouchableOpacity onPress={() => setDeclinedCode(null)} accessibilityLabel="Dismiss">
+                <Ionicons name="close" size={18} color={themeColors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          </Card>
+        )}
+
         {invite ? (
           // Show existing invite
           <View style={styles.inviteContent}>
-            <View style={styles.iconContainer}>
-              <Ionicons name="heart" size={48} color={colors.primary} />
-              <Ionicons
-                name="link"
-                size={24}
-                color={colors.primary}
-                style={styles.linkIcon}
-              />
-            </View>
-
             <Text style={[styles.title, { color: themeColors.text }]}>
               Your invite link
             </Text>
             <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>
-              Share this link with your partner to connect
+              Together? Have your partner scan this with their camera. Apart? Share the link.
             </Text>
 
+            <View style={styles.qrContainer}>
+              <QrCode value={invite.url} size={QR_SIZE} />
+            </View>
+
             <Card variant="outlined" padding="md" style={styles.linkCard}>
               <Text
                 style={[styles.linkText, { color: themeColors.text }]}
@@ -187,7 +404,7 @@ export default function InviteScreen() {
             </Card>
 
             <Text style={[styles.expiry, { color: themeColors.textMuted }]}>
-              {getTimeRemaining()}
+              {formatTimeRemaining(remaining ?? 0)}
             </Text>
 
             <View style={styles.actions}>
@@ -212,6 +429,23 @@ export default function InviteScreen() {
                 style={styles.actionButton}
               />
             </View>
+
+            {/* For a link that was shared with the wrong person, or leaked */}
+            <View style={styles.manageActions}>
+              <Button
+                title="New Link"
+                onPress={() => confirmRegenerate(invite)}
+                variant="ghost"
+                loading={changingCode === invite.code}
+                disabled={changingCode !== null}
+              />
+              <Button
+                title="Revoke"
+                onPress={() => confirmRevoke(invite)}
+                variant="ghost"
+                disabled={changingCode !== null}
+              />
+            </View>
           </View>
         ) : (
           // Create new invite
@@ -228,17 +462,93 @@ export default function InviteScreen() {
               The link expires in 24 hours.
             </Text>
 
+            {queuedInvite?.status === 'pending' ? (
+              <Text style={[styles.queued, { color: themeColors.textSecondary }]}>
+                Your invite link will be created as soon as you&apos;re back online.
+              </Text>
+            ) : queuedInvite?.status === 'failed' ? (
+              <>
+                <Text style={[styles.queued, { color: colors.error }]}>
+                  {queuedInvite.error ?? "Couldn't create your invite link."}
+                </Text>
+                <Button
+                  title="Try Again"
+                  onPress={() => outbox.retry(queuedInvite.id)}
+                  variant="primary"
+                  size="large"
+                  style={styles.createButton}
+                />
+                <Button
+                  title="Cancel"
+                  onPress={() => outbox.discard(queuedInvite.id)}
+                  variant="ghost"
+                  style={styles.createButton}
+                />
+              </>
+            ) : (
+              <Button
+                title="Create Invite Link"
+                onPress={createInvite}
+                variant="primary"
+                size="large"
+                loading={isCreating}
+                style={styles.createButton}
+              />
+            )}
+
             <Button
-              title="Create Invite Link"
-              onPress={createInvite}
-              variant="primary"
-              size="large"
-              loading={isCreating}
+              title="I have a code"
+              onPress={() => router.push('/join')}
+              variant="ghost"
               style={styles.createButton}
             />
           </View>
         )}
-      </View>
+
+        {queuedChange?.status === 'pending' && (
+          <Text style={[styles.queued, { color: themeColors.textSecondary }]}>
+            Your invite changes will be made as soon as you&apos;re back online.
+          </Text>
+        )}
+        {queuedChange?.status === 'failed' && (
+          <View style={styles.failedChange}>
+            <Text style={[styles.queued, { color: colors.error }]}>
+              {queuedChange.error ?? "Couldn't update your invite."}
+            </Text>
+            <View style={styles.manageActions}>
+              <Button
+                title="Try Again"
+                onPress={() => outbox.retry(queuedChange.id)}
+                variant="ghost"
+              />
+              <Button
+                title="Dismiss"
+                onPress={() => outbox.discard(queuedChange.id)}
+                variant="ghost"
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Earlier invites */}
+        {earlierInvites.length > 0 && (
+          <View style={styles.history}>
+            <Text style={[styles.sectionTitle, { color: themeColors.text }]}>
+              {invite ? 'Other invites' : 'Earlier invites'}
+            </Text>
+            <Card variant="outlined" padding="none">
+              {earlierInvites.map((earlier) => (
+                <InviteRow
+                  key={earlier.code}
+                  invite={earlier}
+                  status={inviteStatus(earlier, now)}
+                  onRevoke={confirmRevoke}
+                />
+              ))}
+            </Card>
+          </View>
+        )}
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -258,7 +568,7 @@ const styles = StyleSheet.create({
     ...typography.headline,
   },
   content: {
-    flex: 1,
+    flexGrow: 1,
     padding: spacing.xl,
   },
   createContent: {
@@ -267,18 +577,16 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   inviteContent: {
-    flex: 1,
     alignItems: 'center',
-    paddingTop: spacing.xxxl,
+    paddingTop: spacing.lg,
   },
   iconContainer: {
     position: 'relative',
     marginBottom: spacing.xl,
   },
-  linkIcon: {
-    position: 'absolute',
-    bottom: -8,
-    right: -12,
+  qrContainer: {
+    marginBottom: spacing.lg,
+    ...shadows.md,
   },
   title: {
     ...typography.title1,
@@ -311,9 +619,92 @@ const styles = StyleSheet.create({
   actionButton: {
     flex: 1,
   },
+  manageActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.md,
+  },
+  failedChange: {
+    alignItems: 'center',
+  },
+  history: {
+    marginTop: spacing.xl,
+  },
+  sectionTitle: {
+    ...typography.headline,
+    marginBottom: spacing.sm,
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  inviteRowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  inviteRowCode: {
+    ...typography.callout,
+    fontFamily: 'monospace',
+  },
+  inviteRowMeta: {
+    ...typography.caption1,
+  },
+  statusPill: {
+    borderWidth: 1,
+    borderRadius: borderRadius.full,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  statusText: {
+    ...typography.caption2,
+    fontWeight: '600',
+  },
   createButton: {
     width: '100%',
   },
+  queued: {
+    ...typography.callout,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  declinedCard: {
+    marginBottom: spacing.lg,
+  },
+  declinedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  declinedText: {
+    ...typography.subhead,
+    flex: 1,
+  },
+  celebration: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.lg,
+    paddingHorizontal: spacing.xl,
+  },
+  celebrationTitle: {
+    ...typography.largeTitle,
+    color: '#FFF',
+    textAlign: 'center',
+  },
+  celebrationSubtitle: {
+    ...typography.body,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+  },
+  celebrationButton: {
+    marginTop: spacing.lg,
+    minWidth: 220,
+  },
   hasPartnerState: {
     flex: 1,
     alignItems: 'center',
@@ -329,4 +720,8 @@ const styles = StyleSheet.create({
     ...typography.body,
     textAlign: 'center',
   },
+  hasPartnerButton: {
+    marginTop: spacing.xl,
+    minWidth: 200,
+  },
 });
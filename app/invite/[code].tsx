@@ -4,7 +4,7 @@
  * Modal screen for viewing and accepting/declining partnership invites
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -20,6 +20,10 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useAuth } from '@/contexts/AuthContext';
 import { api, Invite } from '@/lib/api';
+import { CancelledError, ExpiredError, NotFoundError } from '@/lib/errors';
+import { queryKeys } from '@/lib/queryCache';
+import { outbox } from '@/lib/outbox';
+import { useQuery } from '@/hooks/useQuery';
 import { Avatar, Button, GradientBackground } from '@/components/ui';
 import {
   colors,
@@ -32,54 +36,72 @@ import {
 
 type InviteStatus = 'loading' | 'valid' | 'expired' | 'not_found' | 'error';
 
+// Invites can be accepted or revoked at any moment, so don't trust old data
+const INVITE_TTL_MS = 15 * 1000;
+
+function getInviteStatus(
+  invite: Invite | null,
+  error: unknown,
+  isFetching: boolean
+): InviteStatus {
+  if (invite) return 'valid';
+  if (isFetching) return 'loading';
+  if (error instanceof NotFoundError) return 'not_found';
+  if (error instanceof ExpiredError) return 'expired';
+  return error ? 'error' : 'loading';
+}
+
 export default function AcceptInviteScreen() {
   const { code } = useLocalSearchParams<{ code: string }>();
-  const { isAuthenticated, spotifyId, partnerId, login, refreshUser } = useAuth();
+  const { isAuthenticated, partnerId, login } = useAuth();
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
-  const [status, setStatus] = useState<InviteStatus>('loading');
-  const [invite, setInvite] = useState<Invite | null>(null);
   const [isAccepting, setIsAccepting] = useState(false);
   const [isDeclining, setIsDeclining] = useState(false);
 
-  useEffect(() => {
-    if (code) {
-      fetchInvite();
-    }
-  }, [code]);
-
-  const fetchInvite = async () => {
-    try {
-      const response = await api.getInvite(code!);
-      setInvite(response.invite);
-      setStatus('valid');
-    } catch (error: any) {
-      if (error.message.includes('404') || error.message.includes('not found')) {
-        setStatus('not_found');
-      } else if (error.message.includes('expired') || error.message.includes('410')) {
-        setStatus('expired');
-      } else {
-        setStatus('error');
-      }
-    }
-  };
+  const inviteQuery = useQuery(
+    queryKeys.invite(code ?? ''),
+    (signal) => api.getInvite(code!, { signal }),
+    { enabled: !!code, ttlMs: INVITE_TTL_MS }
+  );
+  const invite = inviteQuery.data?.invite ?? null;
+  const status = getInviteStatus(invite, inviteQuery.error, inviteQuery.isFetching);
 
   const handleAccept = async () => {
-    if (!spotifyId || !code) return;
+    if (!isAuthenticated || !code) return;
 
     setIsAccepting(true);
     try {
-      await api.acceptInvite(code, spotifyId);
+      // The outbox refreshes the user and cached playlists once it's applied
+      const outcome = await outbox.submit({ type: 'acceptInvite', code });
+
+      if (outcome.status === 'queued') {
+        Alert.alert(
+          "You're offline",
+          "We'll accept this invite as soon as you're back online.",
+          [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+        );
+        return;
+      }
+      if (outcome.status === 'retrying') {
+        Alert.alert(
+          'Still working on it',
+          "We couldn't reach the server just now. We'll keep trying to accept this invite.",
+          [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+        );
+        return;
+      }
+
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      await refreshUser();
-      
       Alert.alert(
         'Connected!',
         `You and ${invite?.inviter?.displayName || 'your partner'} are now connected.`,
         [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
       );
     } catch (error: any) {
+      // Sign-out cancels anything still being sent
+      if (error instanceof CancelledError) return;
       Alert.alert('Error', error.message || 'Failed to accept invite');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
@@ -88,7 +110,7 @@ export default function AcceptInviteScreen() {
   };
 
   const handleDecline = async () => {
-    if (!spotifyId || !code) return;
+    if (!isAuthenticated || !code) return;
 
     Alert.alert(
       'Decline Invite',
@@ -101,9 +123,11 @@ export default function AcceptInviteScreen() {
           onPress: async () => {
             setIsDeclining(true);
             try {
-              await api.declineInvite(code, spotifyId);
+              // Queued if offline; either way we're done with this screen
+              await outbox.submit({ type: 'declineInvite', code });
               router.back();
             } catch (error: any) {
+              if (error instanceof CancelledError) return;
               Alert.alert('Error', error.message || 'Failed to decline invite');
             } finally {
               setIsDeclining(false);
@@ -129,6 +153,8 @@ export default function AcceptInviteScreen() {
 
   // Error states
   if (status === 'not_found' || status === 'error') {
+    const isNotFound = status === 'not_found';
+
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
         <View style={styles.header}>
@@ -137,16 +163,28 @@ export default function AcceptInviteScreen() {
           </TouchableOpacity>
         </View>
         <View style={styles.centerContent}>
-          <Ionicons name="alert-circle-outline" size={64} color={colors.error} />
+          <Ionicons
+            name={isNotFound ? 'alert-circle-outline' : 'cloud-offline-outline'}
+            size={64}
+            color={colors.error}
+          />
           <Text style={[styles.errorTitle, { color: themeColors.text }]}>
-            Invite not found
+            {isNotFound ? 'Invite not found' : "Couldn't load invite"}
           </Text>
           <Text style={[styles.errorSubtitle, { color: themeColors.textSecondary }]}>
-            This invite link is invalid or has already been used.
+            {isNotFound
+              ? 'This invite link is invalid or has already been used.'
+              : 'Check your connection and try again.'}
           </Text>
           <Button
-            title="Go Home"
-            onPress={() => router.replace('/')}
+            title={isNotFound ? 'Go Home' : 'Try Again'}
+            onPress={() => {
+              if (isNotFound) {
+                router.replace('/');
+              } else {
+                inviteQuery.refetch().catch(() => {});
+              }
+            }}
             variant="primary"
             style={styles.errorButton}
           />
@@ -197,7 +235,7 @@ export default function AcceptInviteScreen() {
             Already connected
           </Text>
           <Text style={[styles.errorSubtitle, { color: themeColors.textSecondary }]}>
-            You already have a partner. To accept this invite, you would need to disconnect first.
+            You already have a partner. To accept this invite, disconnect from them first on the partner screen.
           </Text>
           <Button
             title="Go Home"
@@ -0,0 +1,154 @@
+/**
+ * Join Screen
+ *
+ * Enter an invite code by hand, for when the link can't be opened directly
+ * (no messaging app, or the code was read out loud). Valid codes continue
+ * to the accept invite screen.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { parseInviteCode } from '@/lib/inviteCode';
+import { Button } from '@/components/ui';
+import {
+  colors,
+  getColors,
+  typography,
+  spacing,
+  borderRadius,
+} from '@/constants';
+
+export default function JoinScreen() {
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+
+  const [input, setInput] = useState('');
+  const [showError, setShowError] = useState(false);
+
+  const code = parseInviteCode(input);
+
+  const handleContinue = () => {
+    if (!code) {
+      setShowError(true);
+      return;
+    }
+    router.replace(`/invite/${code}`);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="close" size={28} color={themeColors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: themeColors.text }]}>
+          Enter Invite Code
+        </Text>
+        <View style={{ width: 28 }} />
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons name="keypad-outline" size={48} color={colors.primary} />
+        </View>
+
+        <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>
+          Type the code from your partner&apos;s invite, or paste the whole link
+        </Text>
+
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: themeColors.surface,
+              color: themeColors.text,
+              borderColor: showError && !code ? colors.error : themeColors.border,
+            },
+          ]}
+          placeholder="Invite code"
+          placeholderTextColor={themeColors.textMuted}
+          value={input}
+          onChangeText={(text) => {
+            setInput(text);
+            setShowError(false);
+          }}
+          onSubmitEditing={handleContinue}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="go"
+          autoFocus
+        />
+
+        {showError && !code && (
+          <Text style={styles.error}>
+            That doesn&apos;t look like an invite code. Check it and try again.
+          </Text>
+        )}
+
+        <Button
+          title="Continue"
+          onPress={handleContinue}
+          variant="primary"
+          size="large"
+          disabled={!input.trim()}
+          style={styles.continueButton}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  headerTitle: {
+    ...typography.headline,
+  },
+  content: {
+    flex: 1,
+    padding: spacing.xl,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginTop: spacing.xl,
+    marginBottom: spacing.lg,
+  },
+  subtitle: {
+    ...typography.body,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+  },
+  input: {
+    ...typography.body,
+    fontFamily: 'monospace',
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+  },
+  error: {
+    ...typography.footnote,
+    color: colors.error,
+    marginTop: spacing.sm,
+  },
+  continueButton: {
+    marginTop: spacing.xl,
+  },
+});
@@ -1,10 +1,11 @@
 /**
  * Partner Screen
  * 
- * Shows partner details and current listening status
+ * Shows partner details and current listening status, and lets the user
+ * end the partnership
  */
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -18,6 +19,7 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSocket } from '@/contexts/SocketContext';
+import { getErrorMessage } from '@/lib/errors';
 import { Avatar, Card, Button, StatusBadge } from '@/components/ui';
 import {
   colors,
@@ -28,12 +30,36 @@ import {
   shadows,
 } from '@/constants';
 
+function formatPartnershipDate(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return 'the beginning';
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
 export default function PartnerScreen() {
-  const { partnerId } = useAuth();
+  const { partnerId, partner, requestUnpair, undoUnpair, unpairAt } = useAuth();
   const { isPartnerOnline, partnerStatus, joinPartnerSession } = useSocket();
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
+  // The unpair outlives this screen, so only navigate if we're still here
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Tick the undo countdown
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (unpairAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [unpairAt]);
+
   // No partner connected
   if (!partnerId) {
     return (
@@ -64,6 +90,12 @@ export default function PartnerScreen() {
             variant="primary"
             style={styles.inviteButton}
           />
+          <Button
+            title="Enter a Code"
+            onPress={() => router.push('/join')}
+            variant="ghost"
+            style={styles.inviteButton}
+          />
         </View>
       </SafeAreaView>
     );
@@ -80,6 +112,32 @@ export default function PartnerScreen() {
     joinPartnerSession();
   };
 
+  const startUnpair = async () => {
+    try {
+      const unpaired = await requestUnpair();
+      if (unpaired && isMountedRef.current) {
+        router.replace('/(tabs)');
+      }
+    } catch (error) {
+      Alert.alert("Couldn't disconnect", getErrorMessage(error));
+    }
+  };
+
+  const handleDisconnect = () => {
+    const name = partner?.displayName ?? 'your partner';
+    Alert.alert(
+      `Disconnect from ${name}?`,
+      "You'll stop sharing what you listen to and leave any session together. Your playlists stay yours.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Disconnect', style: 'destructive', onPress: startUnpair },
+      ]
+    );
+  };
+
+  const secondsLeft =
+    unpairAt !== null ? Math.max(Math.ceil((unpairAt - now) / 1000), 0) : 0;
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
       {/* Header */}
@@ -97,14 +155,15 @@ export default function PartnerScreen() {
         {/* Partner Profile */}
         <View style={styles.profileSection}>
           <Avatar
-            name="Partner"
+            uri={partner?.images?.[0]?.url}
+            name={partner?.displayName ?? 'Partner'}
             size="xxl"
             showStatus
             isOnline={isPartnerOnline}
             showBorder
           />
           <Text style={[styles.partnerName, { color: themeColors.text }]}>
-            Your Partner
+            {partner?.displayName ?? 'Your Partner'}
           </Text>
           <StatusBadge
             status={isPartnerOnline ? 'online' : 'offline'}
@@ -172,10 +231,28 @@ export default function PartnerScreen() {
           <View style={styles.infoRow}>
             <Ionicons name="heart" size={20} color={colors.primary} />
             <Text style={[styles.infoText, { color: themeColors.textSecondary }]}>
-              Connected as partners
+              {partner
+                ? `Together since ${formatPartnershipDate(partner.partnershipStartedAt)}`
+                : 'Connected as partners'}
             </Text>
           </View>
         </Card>
+
+        {/* Disconnect, with a few seconds to change your mind */}
+        {unpairAt !== null ? (
+          <View style={[styles.undoBanner, { backgroundColor: themeColors.surface }]}>
+            <Text style={[styles.undoText, { color: themeColors.text }]}>
+              Disconnecting in {secondsLeft}s
+            </Text>
+            <TouchableOpacity onPress={undoUnpair} accessibilityLabel="Undo disconnect">
+              <Text style={styles.undoAction}>Undo</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.disconnectButton} onPress={handleDisconnect}>
+            <Text style={styles.disconnectText}>Disconnect Partner</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -258,6 +335,33 @@ const styles = StyleSheet.create({
   infoText: {
     ...typography.subhead,
   },
+  disconnectButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    marginTop: spacing.sm,
+  },
+  disconnectText: {
+    ...typography.subhead,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  undoBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    marginTop: spacing.sm,
+    borderRadius: borderRadius.md,
+    ...shadows.sm,
+  },
+  undoText: {
+    ...typography.subhead,
+  },
+  undoAction: {
+    ...typography.subhead,
+    fontWeight: '700',
+    color: colors.primary,
+  },
   emptyContent: {
     flex: 1,
     alignItems: 'center',
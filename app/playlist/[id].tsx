@@ -4,7 +4,7 @@
  * Shows playlist info and track list
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -14,14 +14,21 @@ import {
   TouchableOpacity,
   useColorScheme,
   RefreshControl,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, Playlist, Track } from '@/lib/api';
-import { Button } from '@/components/ui';
+import { usePlayback, showPlaybackError } from '@/contexts/PlaybackContext';
+import { api, Track } from '@/lib/api';
+import { CancelledError } from '@/lib/errors';
+import { playback } from '@/lib/playback';
+import { queryKeys } from '@/lib/queryCache';
+import { useQuery } from '@/hooks/useQuery';
+import { useInfiniteQuery } from '@/hooks/useInfiniteQuery';
+import { Button, MiniPlayer, OfflineBanner } from '@/components/ui';
 import {
   colors,
   gradients,
@@ -34,41 +41,68 @@ import {
 
 export default function PlaylistDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { spotifyId } = useAuth();
+  const { isAuthenticated } = useAuth();
+  const { refresh: refreshPlayback } = usePlayback();
   const scheme = useColorScheme() ?? 'light';
   const themeColors = getColors(scheme);
 
-  const [playlist, setPlaylist] = useState<Playlist | null>(null);
-  const [tracks, setTracks] = useState<Track[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
 
-  const fetchPlaylistData = useCallback(async () => {
-    if (!spotifyId || !id) return;
+  // Served from cache when available, revalidated in the background.
+  // Both are persisted so previously opened playlists work offline. Tracks
+  // are loaded a page at a time as the list scrolls.
+  const playlistQuery = useQuery(
+    queryKeys.playlist(id ?? ''),
+    (signal) => api.getPlaylist(id!, { signal }),
+    { enabled: isAuthenticated && !!id, persist: true }
+  );
+  const tracksQuery = useInfiniteQuery(
+    queryKeys.playlistTracks(id ?? ''),
+    (cursor, signal) => api.getPlaylistTracks(id!, { cursor, signal }),
+    (page) => page.nextCursor,
+    { enabled: isAuthenticated && !!id, persist: true }
+  );
 
+  const playlist = playlistQuery.data?.playlist ?? null;
+  const tracks = tracksQuery.pages?.flatMap((page) => page.tracks) ?? [];
+  // Every tracks page reports the current total, which is fresher than the
+  // playlist metadata
+  const trackCount = tracksQuery.pages?.[0]?.trackCount ?? playlist?.trackCount ?? 0;
+  const isLoading = tracksQuery.isLoading;
+  const isOffline = tracksQuery.isOffline;
+  // The older of the two is what the screen can vouch for
+  const lastSyncedAt = Math.min(playlistQuery.updatedAt, tracksQuery.updatedAt);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
     try {
-      const [playlistResponse, tracksResponse] = await Promise.all([
-        api.getPlaylist(id, spotifyId),
-        api.getPlaylistTracks(id, spotifyId),
-      ]);
-      
-      setPlaylist(playlistResponse.playlist);
-      setTracks(tracksResponse.tracks);
+      await Promise.all([playlistQuery.refetch(), tracksQuery.refetch()]);
     } catch (error) {
-      console.error('Error fetching playlist:', error);
+      if (!(error instanceof CancelledError)) {
+        console.error('Error fetching playlist:', error);
+      }
     } finally {
-      setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [id, spotifyId]);
+  };
 
-  useEffect(() => {
-    fetchPlaylistData();
-  }, [fetchPlaylistData]);
+  // Start the playlist on the user's Spotify. Sampling playback straight
+  // away shares it with the partner without waiting for the next poll.
+  const handlePlay = async (fromTrack?: Track) => {
+    if (!id || isStarting) return;
 
-  const handleRefresh = () => {
-    setIsRefreshing(true);
-    fetchPlaylistData();
+    setIsStarting(true);
+    try {
+      await playback.playPlaylist(id, fromTrack?.uri);
+      await refreshPlayback();
+      router.push('/(tabs)/now-playing');
+    } catch (error) {
+      console.error('Error starting playback:', error);
+      showPlaybackError("Couldn't start playback", error);
+    } finally {
+      setIsStarting(false);
+    }
   };
 
   const formatDuration = (ms: number) => {
@@ -100,7 +134,7 @@ export default function PlaylistDetailScreen() {
       
       <View style={styles.metaRow}>
         <Text style={[styles.metaText, { color: themeColors.textSecondary }]}>
-          {playlist?.trackCount || 0} tracks
+          {trackCount} tracks
         </Text>
         {playlist?.collaborative && (
           <>
@@ -117,8 +151,10 @@ export default function PlaylistDetailScreen() {
       <View style={styles.actions}>
         <Button
           title="Listen Together"
-          onPress={() => {}}
+          onPress={() => handlePlay()}
           variant="primary"
+          loading={isStarting}
+          disabled={isOffline || trackCount === 0}
           icon={<Ionicons name="heart" size={18} color="#FFF" />}
           style={styles.playButton}
         />
@@ -135,6 +171,8 @@ export default function PlaylistDetailScreen() {
     <TouchableOpacity
       style={[styles.trackRow, { borderBottomColor: themeColors.divider }]}
       activeOpacity={0.7}
+      onPress={() => handlePlay(item)}
+      disabled={isOffline || isStarting}
     >
       <Text style={[styles.trackNumber, { color: themeColors.textMuted }]}>
         {index + 1}
@@ -181,26 +219,40 @@ export default function PlaylistDetailScreen() {
         </TouchableOpacity>
       </View>
 
+      {isOffline && <OfflineBanner lastSyncedAt={lastSyncedAt} />}
+
       <FlatList
         data={tracks}
         renderItem={renderTrack}
         keyExtractor={(item) => item.id}
         ListHeaderComponent={renderHeader}
+        onEndReached={tracksQuery.fetchNextPage}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          tracksQuery.isFetchingNextPage ? (
+            <ActivityIndicator style={styles.footerLoader} color={colors.primary} />
+          ) : null
+        }
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
             onRefresh={handleRefresh}
+            enabled={!isOffline}
             tintColor={colors.primary}
           />
         }
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
-              {isLoading ? 'Loading tracks...' : 'No tracks yet'}
+              {isLoading
+                ? 'Loading tracks...'
+                : isOffline
+                  ? 'Tracks will load once you reconnect'
+                  : 'No tracks yet'}
             </Text>
-            {!isLoading && (
+            {!isLoading && !isOffline && (
               <Text style={[styles.emptyHint, { color: themeColors.textMuted }]}>
                 Add songs in Spotify to see them here
               </Text>
@@ -208,6 +260,8 @@ export default function PlaylistDetailScreen() {
           </View>
         }
       />
+
+      <MiniPlayer />
     </SafeAreaView>
   );
 }
@@ -216,6 +270,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  footerLoader: {
+    paddingVertical: spacing.lg,
+  },
   navHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,203 @@
+/**
+ * DevicePickerSheet - Choose the Spotify Connect device to play on
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { SpotifyDevice } from '@/lib/api';
+import { colors, getColors, typography, spacing } from '@/constants';
+
+interface DevicePickerSheetProps {
+  visible: boolean;
+  devices: SpotifyDevice[];
+  /** The remembered device, if any */
+  selectedId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onSelect: (device: SpotifyDevice) => void;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+type IoniconName = React.ComponentProps<typeof Ionicons>['name'];
+
+// Spotify reports device types like "Computer", "Smartphone", "Speaker"
+function deviceIcon(type: string): IoniconName {
+  switch (type.toLowerCase()) {
+    case 'computer':
+      return 'laptop-outline';
+    case 'smartphone':
+      return 'phone-portrait-outline';
+    case 'tablet':
+      return 'tablet-portrait-outline';
+    case 'tv':
+    case 'castvideo':
+      return 'tv-outline';
+    case 'speaker':
+    case 'castaudio':
+    case 'avr':
+      return 'volume-high-outline';
+    default:
+      return 'hardware-chip-outline';
+  }
+}
+
+export function DevicePickerSheet({
+  visible,
+  devices,
+  selectedId,
+  isLoading,
+  error,
+  onSelect,
+  onRefresh,
+  onClose,
+}: DevicePickerSheetProps) {
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+
+  const renderDevice = ({ item }: { item: SpotifyDevice }) => {
+    const isSelected = item.id === selectedId;
+    const tint = item.isActive ? colors.primary : themeColors.text;
+
+    return (
+      <TouchableOpacity
+        style={[styles.deviceRow, { borderBottomColor: themeColors.divider }]}
+        onPress={() => onSelect(item)}
+        disabled={item.isRestricted}
+        activeOpacity={0.7}
+      >
+        <Ionicons name={deviceIcon(item.type)} size={24} color={tint} />
+        <View style={styles.deviceInfo}>
+          <Text style={[styles.deviceName, { color: tint }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={[styles.deviceMeta, { color: themeColors.textSecondary }]}>
+            {item.isRestricted
+              ? "Can't be controlled remotely"
+              : item.isActive
+                ? 'Playing now'
+                : item.type}
+          </Text>
+        </View>
+        {isSelected && <Ionicons name="checkmark" size={22} color={colors.primary} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: themeColors.background }]}>
+        <View style={[styles.header, { borderBottomColor: themeColors.border }]}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={[styles.headerAction, { color: themeColors.textSecondary }]}>
+              Done
+            </Text>
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: themeColors.text }]}>Play on</Text>
+          <TouchableOpacity onPress={onRefresh} disabled={isLoading} style={styles.refresh}>
+            <Ionicons name="refresh" size={22} color={themeColors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={devices}
+          renderItem={renderDevice}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              {isLoading ? (
+                <ActivityIndicator color={colors.primary} />
+              ) : (
+                <>
+                  <Ionicons
+                    name="radio-outline"
+                    size={40}
+                    color={themeColors.textMuted}
+                  />
+                  <Text style={[styles.emptyText, { color: themeColors.text }]}>
+                    {error ?? 'No devices found'}
+                  </Text>
+                  <Text style={[styles.emptyHint, { color: themeColors.textSecondary }]}>
+                    Open Spotify on your phone, computer or speaker, then refresh
+                  </Text>
+                </>
+              )}
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerAction: {
+    ...typography.body,
+    width: 60,
+  },
+  title: {
+    ...typography.headline,
+  },
+  refresh: {
+    width: 60,
+    alignItems: 'flex-end',
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  deviceInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  deviceName: {
+    ...typography.headline,
+  },
+  deviceMeta: {
+    ...typography.subhead,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+    paddingHorizontal: spacing.xl,
+    gap: spacing.sm,
+  },
+  emptyText: {
+    ...typography.headline,
+    textAlign: 'center',
+  },
+  emptyHint: {
+    ...typography.footnote,
+    textAlign: 'center',
+  },
+});
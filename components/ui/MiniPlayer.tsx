@@ -0,0 +1,178 @@
+/**
+ * MiniPlayer - Compact now-playing bar shown above the tab bar and on
+ * stack screens. Shows the user's own track, or the partner's when the
+ * user isn't playing anything, and expands to Now Playing on tap.
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePlayback, showPlaybackError } from '@/contexts/PlaybackContext';
+import { useSocket } from '@/contexts/SocketContext';
+import { usePlaybackProgress } from '@/hooks/usePlaybackProgress';
+import { clockSync } from '@/lib/clockSync';
+import { colors, getColors, typography, spacing, borderRadius } from '@/constants';
+
+type IoniconName = React.ComponentProps<typeof Ionicons>['name'];
+
+export function MiniPlayer() {
+  const { playback, sampledAt, isPlaying, togglePlay } = usePlayback();
+  const { partnerStatus, session, role } = useSocket();
+  const { partner } = useAuth();
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+
+  const ownTrack = playback?.track ?? null;
+  const partnerListening = partnerStatus?.isListening ? partnerStatus : null;
+
+  // Own playback is sampled on this device's clock; the partner's on the server's
+  const positionMs = usePlaybackProgress(
+    ownTrack && playback
+      ? {
+          positionMs: playback.positionMs,
+          updatedAt: sampledAt + clockSync.getOffset(),
+          isPlaying,
+          durationMs: ownTrack.durationMs,
+        }
+      : partnerListening
+  );
+
+  if (!ownTrack && !partnerListening) return null;
+
+  const title = ownTrack?.name ?? partnerListening?.trackName ?? 'Unknown Track';
+  const artist = ownTrack?.artists ?? partnerListening?.artistName ?? 'Unknown Artist';
+  const image = ownTrack ? ownTrack.albumImage : partnerListening?.albumImage;
+  const durationMs = ownTrack?.durationMs ?? partnerListening?.durationMs;
+  const progress = durationMs && positionMs !== null ? Math.min(positionMs / durationMs, 1) : 0;
+
+  const syncState: { icon: IoniconName; label: string } | null = session
+    ? role === 'host'
+      ? { icon: 'radio-outline', label: "You're in control" }
+      : { icon: 'heart', label: `Synced with ${partner?.displayName ?? 'your partner'}` }
+    : !ownTrack
+      ? { icon: 'headset-outline', label: `${partner?.displayName ?? 'Your partner'} is listening` }
+      : null;
+
+  const handleTogglePlay = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await togglePlay();
+    } catch (error) {
+      console.error('Error toggling playback:', error);
+      showPlaybackError("Couldn't control playback", error);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.container,
+        { backgroundColor: themeColors.surface, borderTopColor: themeColors.border },
+      ]}
+      onPress={() => router.navigate('/(tabs)/now-playing')}
+      activeOpacity={0.9}
+    >
+      <View style={[styles.progressTrack, { backgroundColor: themeColors.border }]}>
+        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+      </View>
+
+      <View style={styles.row}>
+        {image ? (
+          <Image source={{ uri: image }} style={styles.artwork} />
+        ) : (
+          <View style={[styles.artwork, styles.artworkPlaceholder]}>
+            <Ionicons name="musical-note" size={18} color={colors.primary} />
+          </View>
+        )}
+
+        <View style={styles.info}>
+          <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={1}>
+            {title}
+          </Text>
+          <View style={styles.subtitleRow}>
+            {syncState && (
+              <Ionicons name={syncState.icon} size={12} color={colors.primary} />
+            )}
+            <Text
+              style={[styles.subtitle, { color: themeColors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {syncState ? `${syncState.label} · ${artist}` : artist}
+            </Text>
+          </View>
+        </View>
+
+        {/* Followers can't control playback; partner-only has nothing to control */}
+        {ownTrack && role !== 'follower' && (
+          <TouchableOpacity
+            onPress={handleTogglePlay}
+            style={styles.playButton}
+            accessibilityLabel={isPlaying ? 'Pause' : 'Play'}
+          >
+            <Ionicons name={isPlaying ? 'pause' : 'play'} size={26} color={themeColors.text} />
+          </TouchableOpacity>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  progressTrack: {
+    height: 2,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  artwork: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.sm,
+  },
+  artworkPlaceholder: {
+    backgroundColor: colors.primaryMuted,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    ...typography.subhead,
+    fontWeight: '600',
+  },
+  subtitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  subtitle: {
+    ...typography.caption1,
+    flexShrink: 1,
+  },
+  playButton: {
+    padding: spacing.xs,
+  },
+});
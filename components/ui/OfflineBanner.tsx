@@ -0,0 +1,58 @@
+/**
+ * OfflineBanner - Shown while offline, with when the data was last synced
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getColors, typography, spacing, borderRadius } from '@/constants';
+
+interface OfflineBannerProps {
+  /** Timestamp of the data on screen (0 = never synced) */
+  lastSyncedAt: number;
+}
+
+function formatLastSynced(timestamp: number): string {
+  if (!timestamp) return 'Not synced yet';
+
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Last synced just now';
+  if (minutes < 60) return `Last synced ${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last synced ${hours}h ago`;
+
+  return `Last synced ${new Date(timestamp).toLocaleDateString()}`;
+}
+
+export function OfflineBanner({ lastSyncedAt }: OfflineBannerProps) {
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeColors.surface }]}>
+      <Ionicons name="cloud-offline-outline" size={16} color={themeColors.textSecondary} />
+      <Text style={[styles.text, { color: themeColors.textSecondary }]}>
+        Offline · {formatLastSynced(lastSyncedAt)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    alignSelf: 'flex-start',
+  },
+  text: {
+    ...typography.caption1,
+    fontWeight: '500',
+  },
+});
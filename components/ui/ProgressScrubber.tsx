@@ -0,0 +1,168 @@
+/**
+ * ProgressScrubber - Track progress with elapsed / remaining time
+ *
+ * Read-only unless `onSeek` is given, in which case the bar can be tapped
+ * or dragged; the seek is sent once on release.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  PanResponder,
+  useColorScheme,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import { colors, getColors, typography, spacing } from '@/constants';
+
+interface ProgressScrubberProps {
+  positionMs: number | null;
+  /** Unknown durations show elapsed time only */
+  durationMs?: number | null;
+  onSeek?: (positionMs: number) => void;
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export function ProgressScrubber({ positionMs, durationMs, onSeek }: ProgressScrubberProps) {
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+
+  const duration = durationMs && durationMs > 0 ? durationMs : null;
+  const canSeek = !!onSeek && duration !== null;
+
+  // While dragging, the bar follows the finger instead of playback
+  const [dragFraction, setDragFraction] = useState<number | null>(null);
+
+  // The responder is created once, so it reads everything else through refs
+  const widthRef = useRef(0);
+  const startXRef = useRef(0);
+  const latestRef = useRef({ duration, canSeek, onSeek });
+  useEffect(() => {
+    latestRef.current = { duration, canSeek, onSeek };
+  });
+
+  const fractionAt = (x: number) =>
+    widthRef.current > 0 ? clamp(x / widthRef.current, 0, 1) : 0;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => latestRef.current.canSeek,
+      onMoveShouldSetPanResponder: () => latestRef.current.canSeek,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        startXRef.current = event.nativeEvent.locationX;
+        setDragFraction(fractionAt(startXRef.current));
+      },
+      onPanResponderMove: (_event, gesture) => {
+        setDragFraction(fractionAt(startXRef.current + gesture.dx));
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        const { duration: total, onSeek: seek } = latestRef.current;
+        const fraction = fractionAt(startXRef.current + gesture.dx);
+        setDragFraction(null);
+        if (total !== null && seek) seek(Math.round(fraction * total));
+      },
+      onPanResponderTerminate: () => setDragFraction(null),
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    widthRef.current = event.nativeEvent.layout.width;
+  };
+
+  const fraction =
+    dragFraction ??
+    (duration !== null && positionMs !== null ? clamp(positionMs / duration, 0, 1) : 0);
+  const shownPosition =
+    dragFraction !== null && duration !== null ? dragFraction * duration : positionMs;
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.touchArea}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        {/* Children don't take touches, so locationX is relative to the bar */}
+        <View
+          style={[styles.track, { backgroundColor: themeColors.border }]}
+          pointerEvents="none"
+        >
+          <View style={[styles.fill, { width: `${fraction * 100}%` }]} />
+        </View>
+        {canSeek && (
+          <View
+            pointerEvents="none"
+            style={[
+              styles.thumb,
+              { left: `${fraction * 100}%` },
+              dragFraction !== null && styles.thumbActive,
+            ]}
+          />
+        )}
+      </View>
+
+      <View style={styles.times}>
+        <Text style={[styles.time, { color: themeColors.textMuted }]}>
+          {shownPosition !== null ? formatTime(shownPosition) : '--:--'}
+        </Text>
+        <Text style={[styles.time, { color: themeColors.textMuted }]}>
+          {duration !== null && shownPosition !== null
+            ? `-${formatTime(duration - shownPosition)}`
+            : '--:--'}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const THUMB_SIZE = 12;
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  touchArea: {
+    height: 24,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    marginLeft: -THUMB_SIZE / 2,
+    backgroundColor: colors.primary,
+  },
+  thumbActive: {
+    transform: [{ scale: 1.4 }],
+  },
+  times: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  time: {
+    ...typography.caption1,
+    fontVariant: ['tabular-nums'],
+  },
+});
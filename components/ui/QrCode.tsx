@@ -0,0 +1,84 @@
+/**
+ * QrCode - Renders text as a scannable QR code
+ *
+ * Encoded on the device (see lib/qrCode.ts) and drawn with plain Views:
+ * each row is split into runs of one colour, so a code needs a few hundred
+ * views rather than one per module.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { encodeQrCode } from '@/lib/qrCode';
+import { borderRadius } from '@/constants';
+
+interface QrCodeProps {
+  value: string;
+  /** Width and height, including the quiet zone */
+  size?: number;
+}
+
+// Light margin scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+// Scanners expect dark on light, whatever the app theme
+const DARK = '#000000';
+const LIGHT = '#FFFFFF';
+
+interface Run {
+  dark: boolean;
+  length: number;
+}
+
+function toRuns(row: boolean[]): Run[] {
+  const runs: Run[] = [];
+  for (const dark of row) {
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.length++;
+    } else {
+      runs.push({ dark, length: 1 });
+    }
+  }
+  return runs;
+}
+
+export function QrCode({ value, size = 220 }: QrCodeProps) {
+  const rows = useMemo(() => encodeQrCode(value).modules.map(toRuns), [value]);
+
+  // Whole pixels per module keep the edges crisp
+  const moduleSize = Math.max(Math.floor(size / (rows.length + QUIET_ZONE * 2)), 1);
+  const codeSize = moduleSize * rows.length;
+  const padding = (size - codeSize) / 2;
+
+  return (
+    <View
+      style={[styles.container, { width: size, height: size, padding }]}
+      accessibilityRole="image"
+      accessibilityLabel="QR code"
+    >
+      {rows.map((runs, y) => (
+        <View key={y} style={[styles.row, { height: moduleSize }]}>
+          {runs.map((run, x) => (
+            <View
+              key={x}
+              style={{
+                width: run.length * moduleSize,
+                backgroundColor: run.dark ? DARK : LIGHT,
+              }}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: LIGHT,
+    borderRadius: borderRadius.md,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+});
@@ -0,0 +1,92 @@
+/**
+ * TransportControls - Previous / play-pause / next buttons
+ */
+
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { colors, getColors, spacing, shadows } from '@/constants';
+
+interface TransportControlsProps {
+  isPlaying: boolean;
+  onPlayPause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  /** e.g. while following someone else's playback */
+  disabled?: boolean;
+}
+
+export function TransportControls({
+  isPlaying,
+  onPlayPause,
+  onPrevious,
+  onNext,
+  disabled = false,
+}: TransportControlsProps) {
+  const scheme = useColorScheme() ?? 'light';
+  const themeColors = getColors(scheme);
+  const iconColor = disabled ? themeColors.textMuted : themeColors.text;
+
+  const press = (handler: () => void) => () => {
+    if (disabled) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    handler();
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        onPress={press(onPrevious)}
+        disabled={disabled}
+        style={styles.skipButton}
+        accessibilityLabel="Previous track"
+      >
+        <Ionicons name="play-skip-back" size={28} color={iconColor} />
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={press(onPlayPause)}
+        disabled={disabled}
+        style={[styles.playButton, disabled && styles.playButtonDisabled]}
+        accessibilityLabel={isPlaying ? 'Pause' : 'Play'}
+      >
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={32} color="#FFF" />
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={press(onNext)}
+        disabled={disabled}
+        style={styles.skipButton}
+        accessibilityLabel="Next track"
+      >
+        <Ionicons name="play-skip-forward" size={28} color={iconColor} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xl,
+    marginBottom: spacing.lg,
+  },
+  skipButton: {
+    padding: spacing.sm,
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...shadows.md,
+  },
+  playButtonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -7,3 +7,9 @@ export { Button } from './Button';
 export { Card, PartnerCard } from './Card';
 export { Avatar, PartnerAvatars } from './Avatar';
 export { StatusBadge, ListeningIndicator } from './StatusBadge';
+export { OfflineBanner } from './OfflineBanner';
+export { TransportControls } from './TransportControls';
+export { DevicePickerSheet } from './DevicePickerSheet';
+export { ProgressScrubber } from './ProgressScrubber';
+export { MiniPlayer } from './MiniPlayer';
+export { QrCode } from './QrCode';
@@ -1,22 +1,42 @@
 /**
  * AuthContext - Manages authentication state
- * 
+ *
  * Handles:
- * - Spotify OAuth flow via web browser
- * - Storing/retrieving user session
+ * - Spotify OAuth flow (authorization code + PKCE)
+ * - Storing/retrieving the session token
+ * - Renewing the session before it expires
  * - Fetching user profile and partner info
+ * - Ending the partnership, with a short window to undo
  */
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from 'react';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
 import * as WebBrowser from 'expo-web-browser';
-import * as Linking from 'expo-linking';
-import { api, AuthMeResponse, User } from '@/lib/api';
+import { api, AuthMeResponse, PartnerProfile } from '@/lib/api';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import { outbox } from '@/lib/outbox';
+import { playback } from '@/lib/playback';
 import {
-  getStoredSpotifyId,
-  setStoredSpotifyId,
+  AuthError,
+  AuthRedirectParams,
+  authorizeWithSpotify,
+  completeAuthorization,
+} from '@/lib/auth';
+import {
+  getStoredSessionToken,
+  setStoredSessionToken,
   getStoredUser,
   setStoredUser,
   clearAuthData,
+  StoredPartner,
   StoredUser,
 } from '@/lib/storage';
 
@@ -28,225 +48,431 @@ interface AuthState {
   isAuthenticated: boolean;
   user: StoredUser | null;
   spotifyId: string | null;
+  sessionToken: string | null;
+  tokenExpiresAt: string | null;
   partnerId: string | null;
+  /** The partner's profile, when paired and known */
+  partner: StoredPartner | null;
+  authError: AuthError | null;
 }
 
 interface AuthContextValue extends AuthState {
   login: () => Promise<void>;
+  handleAuthRedirect: (params: AuthRedirectParams) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  /** Drop the partner locally, e.g. after the partner ended the partnership */
+  forgetPartner: () => Promise<void>;
+  /**
+   * End the partnership after an undo window. Resolves true once done, or
+   * false if undone; rejects if the backend refused.
+   */
+  requestUnpair: () => Promise<boolean>;
+  undoUnpair: () => void;
+  /** When a requested unpair will be sent, while it can still be undone */
+  unpairAt: number | null;
+}
+
+const SIGNED_OUT_STATE: AuthState = {
+  isLoading: false,
+  isAuthenticated: false,
+  user: null,
+  spotifyId: null,
+  sessionToken: null,
+  tokenExpiresAt: null,
+  partnerId: null,
+  partner: null,
+  authError: null,
+};
+
+// Renew this long before the session expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Retry delay after a refresh fails for a transient reason (e.g. offline)
+const REFRESH_RETRY_MS = 30 * 1000;
+
+// Longest delay setTimeout honours; larger ones fire straight away
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// How long an unpair can be undone before it is sent
+const UNPAIR_UNDO_MS = 10 * 1000;
+
+interface PendingUnpair {
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (unpaired: boolean) => void;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
 
+function toStoredUser(response: AuthMeResponse, partner: StoredPartner | null): StoredUser {
+  return {
+    id: response.user.id,
+    spotifyId: response.user.id,
+    displayName: response.user.displayName,
+    email: response.user.email,
+    images: response.user.images,
+    partnerId: response.partnerId,
+    partner,
+  };
+}
+
+function toStoredPartner(profile: PartnerProfile): StoredPartner {
+  return {
+    spotifyId: profile.id,
+    displayName: profile.displayName,
+    images: profile.images,
+    partnershipStartedAt: profile.partnershipStartedAt,
+  };
+}
+
+// A failed fetch keeps the cached profile, as long as it's the same partner
+async function fetchPartner(
+  partnerId: string | null,
+  cached: StoredPartner | null | undefined
+): Promise<StoredPartner | null> {
+  if (!partnerId) return null;
+
+  try {
+    const { partner } = await api.getPartner();
+    return partner ? toStoredPartner(partner) : null;
+  } catch (error) {
+    console.error('Error fetching partner profile:', error);
+    return cached?.spotifyId === partnerId ? cached : null;
+  }
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<AuthState>({
+    ...SIGNED_OUT_STATE,
     isLoading: true,
-    isAuthenticated: false,
-    user: null,
-    spotifyId: null,
-    partnerId: null,
   });
+  const [unpairAt, setUnpairAt] = useState<number | null>(null);
+  const pendingUnpairRef = useRef<PendingUnpair | null>(null);
+
+  // Abandon a pending unpair without sending it
+  const cancelPendingUnpair = useCallback(() => {
+    const pending = pendingUnpairRef.current;
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    pendingUnpairRef.current = null;
+    setUnpairAt(null);
+    pending.resolve(false);
+  }, []);
+
+  const endSession = useCallback(async () => {
+    cancelPendingUnpair();
+    api.setSessionToken(null);
+    queryCache.clear();
+    outbox.clear();
+    playback.reset();
+    await clearAuthData();
+    setState(SIGNED_OUT_STATE);
+  }, [cancelPendingUnpair]);
+
+  // Renew the session. Only a definitive rejection from the backend signs
+  // the user out; transient failures leave the session in place.
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    try {
+      const session = await api.refreshSession();
+
+      if (!session) {
+        await endSession();
+        return false;
+      }
+
+      api.setSessionToken(session.sessionToken);
+      await setStoredSessionToken(session.sessionToken);
+
+      setState((prev) => ({
+        ...prev,
+        sessionToken: session.sessionToken,
+        tokenExpiresAt: session.tokenExpiresAt,
+      }));
+      return true;
+    } catch (error) {
+      console.error('Session refresh error:', error);
+      return false;
+    }
+  }, [endSession]);
+
+  // Let the API client renew the session when a request hits a 401
+  useEffect(() => {
+    api.setRefreshHandler(refreshSession);
+    return () => api.setRefreshHandler(null);
+  }, [refreshSession]);
 
   // Initialize auth state from storage
   useEffect(() => {
     initializeAuth();
   }, []);
 
+  // Schedule a refresh ahead of expiry, retrying on transient failures
+  useEffect(() => {
+    if (!state.isAuthenticated || !state.tokenExpiresAt) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const run = async () => {
+      const renewed = await refreshSession();
+      if (!renewed && !cancelled) {
+        timer = setTimeout(run, REFRESH_RETRY_MS);
+      }
+    };
+
+    // An unreadable expiry is left to the foreground catch-up
+    const expiresAt = new Date(state.tokenExpiresAt).getTime();
+    if (!Number.isFinite(expiresAt)) return;
+
+    // Long sessions re-arm in steps rather than overflowing the timer
+    const arm = () => {
+      const delay = Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+      timer = delay > MAX_TIMER_DELAY_MS
+        ? setTimeout(arm, MAX_TIMER_DELAY_MS)
+        : setTimeout(run, delay);
+    };
+    arm();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [state.isAuthenticated, state.tokenExpiresAt, refreshSession]);
+
   const initializeAuth = async () => {
     try {
-      const spotifyId = await getStoredSpotifyId();
+      const sessionToken = await getStoredSessionToken();
       const storedUser = await getStoredUser();
 
-      if (spotifyId && storedUser) {
-        // Verify the session is still valid
+      if (sessionToken && storedUser) {
+        api.setSessionToken(sessionToken);
+
+        // Verify the session is still valid (the API client renews it on 401)
         try {
-          const response = await api.getMe(spotifyId);
-          const user: StoredUser = {
-            id: response.user.id,
-            spotifyId: response.user.id,
-            displayName: response.user.displayName,
-            email: response.user.email,
-            images: response.user.images,
-            partnerId: response.partnerId,
-          };
-          
+          const response = await api.getMe();
+          const partner = await fetchPartner(response.partnerId, storedUser.partner);
+          const user = toStoredUser(response, partner);
+
           await setStoredUser(user);
-          
+
           setState({
             isLoading: false,
             isAuthenticated: true,
             user,
-            spotifyId,
+            spotifyId: user.spotifyId,
+            sessionToken: api.getSessionToken(),
+            tokenExpiresAt: response.tokenExpiresAt,
             partnerId: response.partnerId,
+            partner,
+            authError: null,
           });
-        } catch {
-          // Session invalid, clear storage
-          await clearAuthData();
+        } catch (error) {
+          // A rejected refresh has already cleared the stored session
+          if (!(await getStoredSessionToken())) {
+            setState(SIGNED_OUT_STATE);
+            return;
+          }
+
+          // Otherwise we're likely offline - keep the cached profile and
+          // revalidate when the app comes back to the foreground
+          console.error('Could not verify session:', error);
           setState({
             isLoading: false,
-            isAuthenticated: false,
-            user: null,
-            spotifyId: null,
-            partnerId: null,
+            isAuthenticated: true,
+            user: storedUser,
+            spotifyId: storedUser.spotifyId,
+            sessionToken: api.getSessionToken(),
+            tokenExpiresAt: null,
+            partnerId: storedUser.partnerId ?? null,
+            partner: storedUser.partner ?? null,
+            authError: null,
           });
         }
       } else {
-        setState({
-          isLoading: false,
-          isAuthenticated: false,
-          user: null,
-          spotifyId: null,
-          partnerId: null,
-        });
+        setState(SIGNED_OUT_STATE);
       }
     } catch (error) {
       console.error('Auth initialization error:', error);
-      setState({
-        isLoading: false,
-        isAuthenticated: false,
-        user: null,
-        spotifyId: null,
-        partnerId: null,
-      });
+      setState(SIGNED_OUT_STATE);
     }
   };
 
-  const login = useCallback(async () => {
+  // Exchange a freshly issued session token for a signed-in state
+  const completeLogin = useCallback(async (sessionToken: string) => {
     try {
-      setState((prev) => ({ ...prev, isLoading: true }));
+      api.setSessionToken(sessionToken);
 
-      // Open Spotify login in browser
-      const loginUrl = api.getLoginUrl();
-      const result = await WebBrowser.openAuthSessionAsync(
-        loginUrl,
-        Linking.createURL('/auth/callback')
-      );
-
-      if (result.type === 'success' && result.url) {
-        // Parse the callback URL to get user info
-        // The backend redirects with user info in the response
-        // For now, we'll need to parse the spotifyId from the URL or handle differently
-        
-        // Since the backend returns JSON, we need to handle this differently
-        // The backend callback returns JSON, not a redirect
-        // We'll need to use a different approach - perhaps a custom scheme
-        
-        // For now, let's extract any potential spotifyId from the URL
-        const url = new URL(result.url);
-        const spotifyId = url.searchParams.get('spotifyId');
-        
-        if (spotifyId) {
-          await handleAuthSuccess(spotifyId);
-        } else {
-          // If no spotifyId in URL, the auth may have succeeded
-          // but we need to handle this case differently
-          console.log('Auth result URL:', result.url);
-        }
-      }
-    } catch (error) {
-      console.error('Login error:', error);
-    } finally {
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
-
-  const handleAuthSuccess = async (spotifyId: string) => {
-    try {
       // Fetch user profile
-      const response = await api.getMe(spotifyId);
-      
-      const user: StoredUser = {
-        id: response.user.id,
-        spotifyId: response.user.id,
-        displayName: response.user.displayName,
-        email: response.user.email,
-        images: response.user.images,
-        partnerId: response.partnerId,
-      };
+      const response = await api.getMe();
+      const partner = await fetchPartner(response.partnerId, null);
+      const user = toStoredUser(response, partner);
 
       // Store credentials
-      await setStoredSpotifyId(spotifyId);
+      await setStoredSessionToken(sessionToken);
       await setStoredUser(user);
 
       setState({
         isLoading: false,
         isAuthenticated: true,
         user,
-        spotifyId,
+        spotifyId: user.spotifyId,
+        sessionToken,
+        tokenExpiresAt: response.tokenExpiresAt,
         partnerId: response.partnerId,
+        partner,
+        authError: null,
       });
     } catch (error) {
+      api.setSessionToken(null);
       console.error('Error fetching user profile:', error);
       throw error;
     }
-  };
+  }, []);
+
+  const login = useCallback(async () => {
+    try {
+      setState((prev) => ({ ...prev, isLoading: true, authError: null }));
+
+      const session = await authorizeWithSpotify();
+      await completeLogin(session.sessionToken);
+    } catch (error) {
+      console.error('Login error:', error);
+      const authError = error instanceof AuthError
+        ? error
+        : new AuthError('exchange_failed', 'Could not complete sign-in.');
+      setState((prev) => ({ ...prev, authError }));
+    } finally {
+      setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }, [completeLogin]);
+
+  // Finish a sign-in when the redirect lands on the callback route
+  const handleAuthRedirect = useCallback(async (params: AuthRedirectParams) => {
+    const session = await completeAuthorization(params);
+    await completeLogin(session.sessionToken);
+  }, [completeLogin]);
 
   const logout = useCallback(async () => {
     try {
       setState((prev) => ({ ...prev, isLoading: true }));
 
-      if (state.spotifyId) {
-        await api.logout(state.spotifyId);
+      if (state.sessionToken) {
+        await api.logout();
       }
-
-      await clearAuthData();
-
-      setState({
-        isLoading: false,
-        isAuthenticated: false,
-        user: null,
-        spotifyId: null,
-        partnerId: null,
-      });
     } catch (error) {
-      console.error('Logout error:', error);
       // Still clear local state even if API call fails
-      await clearAuthData();
-      setState({
-        isLoading: false,
-        isAuthenticated: false,
-        user: null,
-        spotifyId: null,
-        partnerId: null,
-      });
+      console.error('Logout error:', error);
+    } finally {
+      await endSession();
     }
-  }, [state.spotifyId]);
+  }, [state.sessionToken, endSession]);
 
   const refreshUser = useCallback(async () => {
-    if (!state.spotifyId) return;
+    if (!state.sessionToken) return;
 
     try {
-      const response = await api.getMe(state.spotifyId);
-      
-      const user: StoredUser = {
-        id: response.user.id,
-        spotifyId: response.user.id,
-        displayName: response.user.displayName,
-        email: response.user.email,
-        images: response.user.images,
-        partnerId: response.partnerId,
-      };
+      const response = await api.getMe();
+      const cached = await getStoredUser();
+      const partner = await fetchPartner(response.partnerId, cached?.partner);
+      const user = toStoredUser(response, partner);
 
       await setStoredUser(user);
 
       setState((prev) => ({
         ...prev,
         user,
+        spotifyId: user.spotifyId,
+        tokenExpiresAt: response.tokenExpiresAt,
         partnerId: response.partnerId,
+        partner,
       }));
     } catch (error) {
       console.error('Error refreshing user:', error);
     }
-  }, [state.spotifyId]);
+  }, [state.sessionToken]);
+
+  const forgetPartner = useCallback(async () => {
+    cancelPendingUnpair();
+    setState((prev) => ({ ...prev, partnerId: null, partner: null }));
+    // Shared playlists may no longer be ours to see
+    queryCache.invalidate(queryKeys.playlists());
+
+    const stored = await getStoredUser();
+    if (stored) {
+      await setStoredUser({ ...stored, partnerId: null, partner: null });
+    }
+  }, [cancelPendingUnpair]);
+
+  const requestUnpair = useCallback((): Promise<boolean> => {
+    cancelPendingUnpair();
+
+    return new Promise<boolean>((resolve, reject) => {
+      const timer = setTimeout(async () => {
+        pendingUnpairRef.current = null;
+        setUnpairAt(null);
+        try {
+          await api.unpair({ idempotencyKey: Crypto.randomUUID() });
+          await forgetPartner();
+          resolve(true);
+        } catch (error) {
+          console.error('Unpair error:', error);
+          reject(error);
+        }
+      }, UNPAIR_UNDO_MS);
+
+      pendingUnpairRef.current = { timer, resolve };
+      setUnpairAt(Date.now() + UNPAIR_UNDO_MS);
+    });
+  }, [cancelPendingUnpair, forgetPartner]);
+
+  // Send anything queued while offline or in a previous launch, and pick up
+  // the new partner when a queued invite acceptance goes through
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+
+    outbox.flush();
+    return outbox.onApplied((mutation) => {
+      if (mutation.type === 'acceptInvite') {
+        refreshUser();
+      }
+    });
+  }, [state.isAuthenticated, refreshUser]);
+
+  // Timers don't run while backgrounded, so catch up on foreground
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState !== 'active') return;
+
+      if (!state.tokenExpiresAt) {
+        // Session was never verified (started offline)
+        refreshUser();
+        return;
+      }
+
+      const expiresAt = new Date(state.tokenExpiresAt).getTime();
+      if (expiresAt - Date.now() <= REFRESH_MARGIN_MS) {
+        refreshSession();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [state.isAuthenticated, state.tokenExpiresAt, refreshUser, refreshSession]);
 
   return (
     <AuthContext.Provider
       value={{
         ...state,
         login,
+        handleAuthRedirect,
         logout,
         refreshUser,
+        forgetPartner,
+        requestUnpair,
+        undoUnpair: cancelPendingUnpair,
+        unpairAt,
       }}
     >
       {children}
@@ -0,0 +1,339 @@
+/**
+ * PlaybackContext - The user's own Spotify playback
+ *
+ * Handles:
+ * - Polling what the user is playing while the app is in the foreground
+ * - Sharing it with the partner (listening:start / update / stop), sending
+ *   only meaningful changes - see lib/listeningBroadcast.ts
+ * - The "share my listening" privacy toggle
+ * - Play / pause that also drives a shared session when we're the host
+ * - Following the partner: sync commands, the host's transport and drift
+ *   correction. These run here rather than in a screen so a follower keeps
+ *   up whichever tab is open.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from 'react';
+import { Alert, AppState } from 'react-native';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from './AuthContext';
+import { useSocket } from './SocketContext';
+import { PlaybackState } from '@/lib/api';
+import { CancelledError, NoActiveDeviceError, getErrorMessage } from '@/lib/errors';
+import { isOnline, subscribeNetwork } from '@/lib/network';
+import { playback as playbackService } from '@/lib/playback';
+import { getShareListening, setShareListening } from '@/lib/storage';
+import {
+  BroadcastSnapshot,
+  nextBroadcast,
+  snapshotOf,
+} from '@/lib/listeningBroadcast';
+
+// Poll faster while something is playing, since the partner is watching
+const POLL_PLAYING_MS = 5 * 1000;
+const POLL_IDLE_MS = 15 * 1000;
+
+interface PlaybackContextValue {
+  /** Latest sample of the user's playback; null when nothing is playing */
+  playback: PlaybackState | null;
+  /** Local time of that sample (0 = not sampled yet) */
+  sampledAt: number;
+  /** Whether listening is shared with the partner */
+  isSharing: boolean;
+  setSharing: (enabled: boolean) => void;
+  /** Whether playback is running - the session's when in one */
+  isPlaying: boolean;
+  /** Pause or resume. Rejects if Spotify refused (e.g. NoActiveDeviceError). */
+  togglePlay: () => Promise<void>;
+  /** Sample now, e.g. right after changing playback */
+  refresh: () => Promise<void>;
+}
+
+const PlaybackContext = createContext<PlaybackContextValue | null>(null);
+
+/**
+ * Report a failed playback command. Without a device to play on, offer Now
+ * Playing's device picker.
+ */
+export function showPlaybackError(title: string, error: unknown) {
+  if (error instanceof NoActiveDeviceError) {
+    Alert.alert(title, error.message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Choose Device',
+        onPress: () =>
+          router.navigate({ pathname: '/(tabs)/now-playing', params: { chooseDevice: '1' } }),
+      },
+    ]);
+  } else {
+    Alert.alert(title, getErrorMessage(error));
+  }
+}
+
+export function PlaybackProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const {
+    startListening,
+    updateListening,
+    stopListening,
+    session,
+    role,
+    sendTransport,
+    onTransport,
+    onSyncCommand,
+    onSessionJoined,
+  } = useSocket();
+
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const [sampledAt, setSampledAt] = useState(0);
+  // Off until the stored preference is read, so nothing leaks before then
+  const [isSharing, setIsSharing] = useState(false);
+  const [preferenceLoaded, setPreferenceLoaded] = useState(false);
+  const [isActive, setIsActive] = useState(AppState.currentState === 'active');
+
+  // What the partner was last told; null when nothing is shared
+  const lastBroadcastRef = useRef<BroadcastSnapshot | null>(null);
+  const isSharingRef = useRef(isSharing);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    getShareListening().then((enabled) => {
+      isSharingRef.current = enabled;
+      setIsSharing(enabled);
+      setPreferenceLoaded(true);
+    });
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      setIsActive(appState === 'active');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const broadcast = useCallback(
+    (state: PlaybackState | null, now: number) => {
+      const last = lastBroadcastRef.current;
+      const shared = isSharingRef.current ? state : null;
+      const event = nextBroadcast(last, shared, now);
+      if (!event) return;
+
+      if (event === 'stop' || !shared?.track) {
+        lastBroadcastRef.current = null;
+        stopListening();
+        return;
+      }
+
+      const { track } = shared;
+      if (event === 'start') {
+        startListening({
+          playlistId: shared.playlistId ?? '',
+          playlistName: shared.playlistName ?? '',
+          trackUri: track.uri,
+          trackName: track.name,
+          artistName: track.artists,
+          albumImage: track.albumImage ?? undefined,
+          durationMs: track.durationMs,
+          positionMs: shared.positionMs,
+        });
+      } else {
+        updateListening({
+          trackUri: track.uri,
+          trackName: track.name,
+          artistName: track.artists,
+          albumImage: track.albumImage ?? undefined,
+          durationMs: track.durationMs,
+          positionMs: shared.positionMs,
+          isPlaying: shared.isPlaying,
+        });
+      }
+      lastBroadcastRef.current = snapshotOf(shared, now);
+    },
+    [startListening, updateListening, stopListening]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!isOnline()) return;
+
+    // Only the newest sample matters
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      const state = await playbackService.getState(controller.signal);
+      const now = Date.now();
+      setPlayback(state);
+      setSampledAt(now);
+      broadcast(state, now);
+    } catch (error) {
+      if (!(error instanceof CancelledError)) {
+        console.warn('Error fetching playback state:', error);
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  }, [broadcast]);
+
+  // Poll while signed in and in the foreground, once we know whether to
+  // share. In the background the last broadcast stands; the partner
+  // extrapolates from it.
+  const isPlayingLocally = playback?.isPlaying ?? false;
+  useEffect(() => {
+    if (!isAuthenticated || !isActive || !preferenceLoaded) return;
+
+    refresh();
+    const timer = setInterval(refresh, isPlayingLocally ? POLL_PLAYING_MS : POLL_IDLE_MS);
+    const unsubscribeNetwork = subscribeNetwork((online) => {
+      if (online) refresh();
+    });
+
+    return () => {
+      clearInterval(timer);
+      unsubscribeNetwork();
+      controllerRef.current?.abort();
+    };
+  }, [isAuthenticated, isActive, preferenceLoaded, isPlayingLocally, refresh]);
+
+  // Forget everything on sign-out
+  useEffect(() => {
+    if (isAuthenticated) return;
+    lastBroadcastRef.current = null;
+    isSharingRef.current = false;
+    setIsSharing(false);
+    setPreferenceLoaded(false);
+    setPlayback(null);
+    setSampledAt(0);
+  }, [isAuthenticated]);
+
+  const setSharing = useCallback(
+    (enabled: boolean) => {
+      isSharingRef.current = enabled;
+      setIsSharing(enabled);
+      setShareListening(enabled).catch((error) => {
+        console.error('Error saving sharing preference:', error);
+      });
+
+      // Stop right away when turned off; turning on starts with the next sample
+      if (!enabled) {
+        broadcast(null, Date.now());
+      } else {
+        refresh();
+      }
+    },
+    [broadcast, refresh]
+  );
+
+  // Latest session playback, for callbacks that outlive a render
+  const sessionPlaybackRef = useRef(session?.playback ?? null);
+  useEffect(() => {
+    sessionPlaybackRef.current = session?.playback ?? null;
+  }, [session?.playback]);
+
+  // Start playing what the partner is playing
+  useEffect(() => {
+    const unsubscribeSync = onSyncCommand(async (command) => {
+      try {
+        await playbackService.followSync(command);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert(
+          'Synced!',
+          `Now playing "${command.trackName}" by ${command.artistName}`,
+          [{ text: 'OK' }]
+        );
+        refresh();
+      } catch (error) {
+        console.error('Error following sync command:', error);
+        // Following starts playback without the user touching anything
+        showPlaybackError("Couldn't start playback", error);
+      }
+    });
+
+    const unsubscribeJoined = onSessionJoined((data) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Partner Joined!', data.message);
+    });
+
+    return () => {
+      unsubscribeSync();
+      unsubscribeJoined();
+    };
+  }, [onSyncCommand, onSessionJoined, refresh]);
+
+  // Follow the host's transport, and correct any drift in between
+  useEffect(() => {
+    return onTransport((event) => {
+      const playlistId = sessionPlaybackRef.current?.playlistId;
+      playbackService.mirrorTransport(event, playlistId).then(refresh, (error) => {
+        console.error('Error mirroring host playback:', error);
+      });
+    });
+  }, [onTransport, refresh]);
+
+  const isFollowing = role === 'follower';
+  useEffect(() => {
+    if (!isFollowing) return;
+
+    const monitor = playbackService.createFollowerDriftMonitor(
+      () => sessionPlaybackRef.current
+    );
+    monitor.start();
+    return () => monitor.stop();
+  }, [isFollowing]);
+
+  // In a session the session's state is what everyone hears
+  const isPlaying = session?.playback?.isPlaying ?? isPlayingLocally;
+
+  // As host, the action is also broadcast so followers can mirror it
+  const togglePlay = useCallback(async () => {
+    const wasPlaying = isPlaying;
+    if (wasPlaying) {
+      await playbackService.pause();
+    } else {
+      await playbackService.resume();
+    }
+
+    if (role === 'host') {
+      const state = await playbackService.getState();
+      sendTransport({
+        type: wasPlaying ? 'pause' : 'play',
+        positionMs: state?.positionMs ?? session?.playback?.positionMs ?? 0,
+      });
+    }
+    await refresh();
+  }, [isPlaying, role, session?.playback?.positionMs, sendTransport, refresh]);
+
+  return (
+    <PlaybackContext.Provider
+      value={{
+        playback,
+        sampledAt,
+        isSharing,
+        setSharing,
+        isPlaying,
+        togglePlay,
+        refresh,
+      }}
+    >
+      {children}
+    </PlaybackContext.Provider>
+  );
+}
+
+export function usePlayback() {
+  const context = useContext(PlaybackContext);
+  if (!context) {
+    throw new Error('usePlayback must be used within a PlaybackProvider');
+  }
+  return context;
+}
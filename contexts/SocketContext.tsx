@@ -2,9 +2,12 @@
  * SocketContext - Real-time communication with the backend
  * 
  * Handles:
- * - WebSocket connection with Socket.IO
+ * - WebSocket connection with Socket.IO, reconnecting indefinitely
+ * - Protocol version handshake (see lib/socketProtocol.ts)
+ * - Session resume after every reconnect
  * - Partner status updates
- * - Listening session sync
+ * - Shared sessions: one host, followers mirror its transport
+ * - Partnership changes: invites accepted or declined, partnerships ended
  */
 
 import React, {
@@ -15,72 +18,192 @@ import React, {
   useCallback,
   useRef,
 } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { AppState } from 'react-native';
+import { io } from 'socket.io-client';
 import { useAuth } from './AuthContext';
+import { api } from '@/lib/api';
 import { config } from '@/lib/config';
+import { parse, SchemaError } from '@/lib/schema';
+import { clockSync } from '@/lib/clockSync';
+import { applyTransport, getSessionRole, SessionRole } from '@/lib/sharedSession';
+import { isOnline, subscribeNetwork } from '@/lib/network';
+import { queryCache, queryKeys } from '@/lib/queryCache';
+import {
+  ConnectionEvent,
+  ConnectionState,
+  transition,
+} from '@/lib/connectionState';
+import {
+  AppSocket,
+  InviteDeclined,
+  ListeningStart,
+  ListeningUpdate,
+  PartnerStatus,
+  PartnershipCreated,
+  PROTOCOL_VERSION,
+  SessionJoined,
+  SharedSession,
+  SyncCommand,
+  TransportAction,
+  TransportEvent,
+  clockPongSchema,
+  onServerEvent,
+  protocolHelloAckSchema,
+  sessionResumeAckSchema,
+  sessionTakeoverAckSchema,
+} from '@/lib/socketProtocol';
+
+export type {
+  InviteDeclined,
+  PartnerStatus,
+  PartnershipCreated,
+  SharedSession,
+  SyncCommand,
+  TransportAction,
+  TransportEvent,
+} from '@/lib/socketProtocol';
+export type { SessionRole } from '@/lib/sharedSession';
+export type { ConnectionState } from '@/lib/connectionState';
 
 const SOCKET_URL = config.apiUrl;
 
-export interface PartnerStatus {
-  isListening: boolean;
-  spotifyId?: string;
-  playlistId?: string;
-  playlistName?: string;
-  trackUri?: string;
-  trackName?: string;
-  artistName?: string;
-  positionMs?: number;
-  isPlaying?: boolean;
-  updatedAt?: number;
+// How long the server has to answer the protocol handshake or a clock ping
+const ACK_TIMEOUT_MS = 10 * 1000;
+
+// Unanswered protocol handshakes in a row before giving up on the server
+const MAX_HANDSHAKE_TIMEOUTS = 3;
+
+// Reconnection backoff: 1s doubling up to 30s, with jitter, forever
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 30 * 1000;
+
+// Clock sync: a quick burst of samples on connect, then one a minute
+const CLOCK_BURST_SAMPLES = 5;
+const CLOCK_BURST_SPACING_MS = 250;
+const CLOCK_RESYNC_MS = 60 * 1000;
+
+async function sampleClock(socket: AppSocket): Promise<void> {
+  const response = await socket
+    .timeout(ACK_TIMEOUT_MS)
+    .emitWithAck('clock:ping', { clientSentAt: Date.now() });
+  const receivedAt = Date.now();
+  clockSync.addSample(parse(clockPongSchema, response, false), receivedAt);
 }
 
-export interface SyncCommand {
-  trackUri: string;
-  trackName: string;
-  artistName: string;
-  playlistId: string;
-  playlistName: string;
-  positionMs: number;
+// Returns a function that stops sampling
+function startClockSync(socket: AppSocket): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const run = async (burstRemaining: number) => {
+    try {
+      await sampleClock(socket);
+    } catch (error) {
+      console.warn('Clock sync sample failed:', error);
+    }
+    if (stopped) return;
+
+    const delay = burstRemaining > 1 ? CLOCK_BURST_SPACING_MS : CLOCK_RESYNC_MS;
+    timer = setTimeout(() => run(burstRemaining - 1), delay);
+  };
+  run(CLOCK_BURST_SAMPLES);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
 }
 
 interface SocketContextValue {
+  connectionState: ConnectionState;
   isConnected: boolean;
   isPartnerOnline: boolean;
   partnerStatus: PartnerStatus | null;
-  startListening: (data: {
-    playlistId: string;
-    playlistName: string;
-    trackUri: string;
-    trackName: string;
-    artistName: string;
-    positionMs: number;
-  }) => void;
-  updateListening: (data: {
-    trackUri: string;
-    trackName?: string;
-    artistName?: string;
-    positionMs: number;
-    isPlaying: boolean;
-  }) => void;
+  /** Set when the backend no longer speaks this build's protocol */
+  protocolError: string | null;
+  startListening: (data: ListeningStart) => void;
+  updateListening: (data: ListeningUpdate) => void;
   stopListening: () => void;
   joinPartnerSession: () => void;
+  /** The shared session we're in, if any */
+  session: SharedSession | null;
+  role: SessionRole | null;
+  /** Host only: broadcast a transport action to followers */
+  sendTransport: (action: TransportAction) => void;
+  /** Become the host. Resolves false if the server refused. */
+  takeControl: () => Promise<boolean>;
+  leaveSession: () => void;
+  /** Follower: the host's transport actions, to mirror in local playback */
+  onTransport: (callback: (event: TransportEvent) => void) => () => void;
   onSyncCommand: (callback: (command: SyncCommand) => void) => () => void;
-  onSessionJoined: (callback: (data: { spotifyId: string; message: string }) => void) => () => void;
+  onSessionJoined: (callback: (data: SessionJoined) => void) => () => void;
+  /** Inviter: one of our invites was accepted (the user is refreshed too) */
+  onPartnershipCreated: (callback: (data: PartnershipCreated) => void) => () => void;
+  /** Inviter: one of our invites was declined */
+  onInviteDeclined: (callback: (data: InviteDeclined) => void) => () => void;
 }
 
 const SocketContext = createContext<SocketContextValue | null>(null);
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, spotifyId } = useAuth();
-  const socketRef = useRef<Socket | null>(null);
-  
-  const [isConnected, setIsConnected] = useState(false);
+  const {
+    isAuthenticated,
+    sessionToken,
+    spotifyId,
+    partnerId,
+    forgetPartner,
+    refreshUser,
+  } = useAuth();
+  const socketRef = useRef<AppSocket | null>(null);
+  const stopClockSyncRef = useRef<(() => void) | null>(null);
+  const handshakeTimeoutsRef = useRef(0);
+
+  // Session state to restore after a reconnect
+  const listeningRef = useRef<ListeningStart | null>(null);
+  const joinedPartnerSessionRef = useRef(false);
+  // Only the latest update matters, so one is buffered while disconnected
+  const pendingUpdateRef = useRef<ListeningUpdate | null>(null);
+
+  // Subscribers outlive any one socket
+  const syncListenersRef = useRef(new Set<(command: SyncCommand) => void>());
+  const joinedListenersRef = useRef(new Set<(data: SessionJoined) => void>());
+  const transportListenersRef = useRef(new Set<(event: TransportEvent) => void>());
+  const partnershipListenersRef = useRef(new Set<(data: PartnershipCreated) => void>());
+  const declinedListenersRef = useRef(new Set<(data: InviteDeclined) => void>());
+
+  const [connectionState, setConnectionState] = useState<ConnectionState>('offline');
   const [isPartnerOnline, setIsPartnerOnline] = useState(false);
   const [partnerStatus, setPartnerStatus] = useState<PartnerStatus | null>(null);
+  const [protocolError, setProtocolError] = useState<string | null>(null);
+  const [session, setSession] = useState<SharedSession | null>(null);
+
+  const role = getSessionRole(session, spotifyId);
+  const roleRef = useRef<SessionRole | null>(null);
+  useEffect(() => {
+    roleRef.current = role;
+  }, [role]);
 
-  // Connect socket when authenticated
+  // Read from the socket handlers, which outlive any one render
+  const authActionsRef = useRef({ forgetPartner, refreshUser });
   useEffect(() => {
-    if (isAuthenticated && spotifyId) {
+    authActionsRef.current = { forgetPartner, refreshUser };
+  }, [forgetPartner, refreshUser]);
+
+  // Mirrored in a ref so emitters can check it without re-rendering
+  const connectionStateRef = useRef<ConnectionState>('offline');
+  const isConnected = connectionState === 'connected';
+
+  const dispatch = useCallback((event: ConnectionEvent) => {
+    connectionStateRef.current = transition(connectionStateRef.current, event);
+    setConnectionState(connectionStateRef.current);
+  }, []);
+
+  // One socket for the whole signed-in lifetime. Session renewals change the
+  // token but not this flag; the socket reads the current token whenever it
+  // (re)connects.
+  const isSignedIn = isAuthenticated && !!sessionToken;
+  useEffect(() => {
+    if (isSignedIn) {
       connectSocket();
     } else {
       disconnectSocket();
@@ -89,126 +212,409 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     return () => {
       disconnectSocket();
     };
-  }, [isAuthenticated, spotifyId]);
+  }, [isSignedIn]);
+
+  // Restore session state and fetch fresh partner status. Runs after every
+  // successful handshake, so the first connect is just a resume of nothing.
+  const resumeSession = useCallback(async (socket: AppSocket) => {
+    const response = await socket
+      .timeout(ACK_TIMEOUT_MS)
+      .emitWithAck('session:resume', {
+        listening: listeningRef.current,
+        joinedPartnerSession: joinedPartnerSessionRef.current,
+      });
+    const ack = parse(sessionResumeAckSchema, response, false);
+
+    setIsPartnerOnline(ack.partnerOnline || !!ack.partnerStatus?.isListening);
+    setPartnerStatus(ack.partnerStatus);
+    if (ack.session !== undefined) {
+      setSession(ack.session);
+      joinedPartnerSessionRef.current = !!ack.session;
+    }
+
+    // Send what happened while we were away
+    if (pendingUpdateRef.current && listeningRef.current) {
+      socket.emit('listening:update', pendingUpdateRef.current);
+    }
+    pendingUpdateRef.current = null;
+  }, []);
 
   const connectSocket = useCallback(() => {
-    if (socketRef.current?.connected) return;
+    if (socketRef.current) return;
 
-    const socket = io(SOCKET_URL, {
-      query: { spotifyId },
+    // A new socket gets a fresh handshake
+    setProtocolError(null);
+    const socket: AppSocket = io(SOCKET_URL, {
+      auth: (cb) => cb({ token: api.getSessionToken() }),
       transports: ['websocket'],
       reconnection: true,
-      reconnectionAttempts: 5,
-      reconnectionDelay: 1000,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: RECONNECT_DELAY_MS,
+      reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+      randomizationFactor: 0.5,
     });
+    dispatch('start');
 
-    socket.on('connect', () => {
+    // Agree on the protocol before treating the socket as usable. A server
+    // that rejects our version would otherwise just never send the events
+    // this build listens for.
+    socket.on('connect', async () => {
       console.log('🔌 Socket connected');
-      setIsConnected(true);
+
+      try {
+        const response = await socket
+          .timeout(ACK_TIMEOUT_MS)
+          .emitWithAck('protocol:hello', { version: PROTOCOL_VERSION });
+        const ack = parse(protocolHelloAckSchema, response, false);
+
+        if (!ack.ok) {
+          console.error(
+            `Socket protocol v${PROTOCOL_VERSION} rejected ` +
+              `(server v${ack.serverVersion}, requires v${ack.minClientVersion}+)`
+          );
+          setProtocolError(
+            ack.message ?? 'This version of the app is no longer supported. Please update.'
+          );
+          socket.disconnect();
+          dispatch('stop');
+          return;
+        }
+
+        handshakeTimeoutsRef.current = 0;
+        setProtocolError(null);
+        await resumeSession(socket);
+        dispatch('ready');
+
+        stopClockSyncRef.current?.();
+        stopClockSyncRef.current = startClockSync(socket);
+      } catch (error) {
+        if (error instanceof SchemaError) {
+          console.error('Invalid socket handshake response:', error.message);
+          setProtocolError('The server sent an unexpected response. Please update the app.');
+          socket.disconnect();
+          dispatch('stop');
+          return;
+        }
+
+        // A server that never answers is as unusable as one that rejects us
+        handshakeTimeoutsRef.current++;
+        if (handshakeTimeoutsRef.current >= MAX_HANDSHAKE_TIMEOUTS) {
+          console.error(`Socket handshake timed out ${handshakeTimeoutsRef.current} times`);
+          setProtocolError(
+            "The server isn't responding to this version of the app. Please update or try again later."
+          );
+          socket.disconnect();
+          dispatch('stop');
+          return;
+        }
+
+        // No answer in time - start over with a fresh connection
+        console.warn('Socket handshake timed out, reconnecting');
+        socket.disconnect().connect();
+      }
     });
 
-    socket.on('disconnect', () => {
-      console.log('🔌 Socket disconnected');
-      setIsConnected(false);
-      setIsPartnerOnline(false);
-      setPartnerStatus(null);
+    socket.on('connect_error', (error) => {
+      console.warn('🔌 Socket connection failed:', error.message);
+      dispatch('lost');
     });
 
-    socket.on('partner:online', (data: { spotifyId: string }) => {
+    // Partner state is kept through a drop; the resume replaces it
+    socket.on('disconnect', (reason) => {
+      console.log('🔌 Socket disconnected:', reason);
+      stopClockSyncRef.current?.();
+      stopClockSyncRef.current = null;
+
+      // We hung up ourselves (sign-out, protocol rejection, handshake retry)
+      if (reason === 'io client disconnect') return;
+
+      dispatch(isOnline() ? 'lost' : 'network_lost');
+
+      // Socket.IO doesn't retry when the server closed the connection
+      if (reason === 'io server disconnect') {
+        socket.connect();
+      }
+    });
+
+    onServerEvent(socket, 'partner:online', (data) => {
       console.log('💚 Partner online:', data.spotifyId);
       setIsPartnerOnline(true);
     });
 
-    socket.on('partner:offline', (data: { spotifyId: string }) => {
+    onServerEvent(socket, 'partner:offline', (data) => {
       console.log('⚪ Partner offline:', data.spotifyId);
       setIsPartnerOnline(false);
       setPartnerStatus(null);
+      joinedPartnerSessionRef.current = false;
     });
 
-    socket.on('partner:status', (data: PartnerStatus) => {
+    onServerEvent(socket, 'partner:status', (data) => {
       console.log('🎵 Partner status:', data);
       setPartnerStatus(data);
       if (data.isListening) {
         setIsPartnerOnline(true);
+      } else {
+        joinedPartnerSessionRef.current = false;
+      }
+    });
+
+    onServerEvent(socket, 'session:sync', (data) => {
+      console.log('🔄 Sync command received:', data);
+      syncListenersRef.current.forEach((listener) => listener(data));
+    });
+
+    onServerEvent(socket, 'session:joined', (data) => {
+      console.log('💕 Session joined:', data);
+      joinedListenersRef.current.forEach((listener) => listener(data));
+    });
+
+    // Full session snapshots: on join, host changes and membership changes
+    onServerEvent(socket, 'session:state', (data) => {
+      console.log('👥 Session state:', data);
+      setSession(data);
+      joinedPartnerSessionRef.current = true;
+    });
+
+    onServerEvent(socket, 'session:transport', (data) => {
+      console.log('⏯️ Host transport:', data.action);
+      setSession((current) =>
+        current && current.id === data.sessionId
+          ? { ...current, playback: applyTransport(current.playback, data.action, data.sentAt) }
+          : current
+      );
+      // Our own actions as host are already applied
+      if (roleRef.current !== 'host') {
+        transportListenersRef.current.forEach((listener) => listener(data));
       }
     });
 
+    onServerEvent(socket, 'session:ended', (data) => {
+      console.log('👋 Session ended:', data.reason);
+      setSession((current) => (current?.id === data.sessionId ? null : current));
+      joinedPartnerSessionRef.current = false;
+    });
+
+    onServerEvent(socket, 'partnership:ended', (data) => {
+      console.log('💔 Partnership ended by:', data.endedBy);
+      authActionsRef.current.forgetPartner().catch((error) => {
+        console.error('Error clearing partner:', error);
+      });
+    });
+
+    // Our invite was accepted: pick up the partner and the shared playlists
+    onServerEvent(socket, 'partnership:created', async (data) => {
+      console.log('💞 Partnership created with:', data.partnerId);
+      queryCache.invalidate(['invites']);
+      queryCache.invalidate(queryKeys.playlists());
+      // Listeners see the partner once refreshed; refreshUser logs its own errors
+      await authActionsRef.current.refreshUser();
+      partnershipListenersRef.current.forEach((listener) => listener(data));
+    });
+
+    onServerEvent(socket, 'invite:declined', (data) => {
+      console.log('💌 Invite declined:', data.inviteCode);
+      queryCache.invalidate(['invites']);
+      declinedListenersRef.current.forEach((listener) => listener(data));
+    });
+
     socketRef.current = socket;
-  }, [spotifyId]);
+  }, [dispatch, resumeSession]);
 
   const disconnectSocket = useCallback(() => {
+    // Nothing from the last session should keep the next one from reconnecting
+    setProtocolError(null);
     if (socketRef.current) {
       socketRef.current.disconnect();
       socketRef.current = null;
-      setIsConnected(false);
+      handshakeTimeoutsRef.current = 0;
+      clockSync.reset();
+      listeningRef.current = null;
+      joinedPartnerSessionRef.current = false;
+      pendingUpdateRef.current = null;
+      dispatch('stop');
       setIsPartnerOnline(false);
       setPartnerStatus(null);
+      setSession(null);
     }
-  }, []);
+  }, [dispatch]);
+
+  // Nothing of the partner's is ours to show once the partnership ends,
+  // whichever side ended it
+  useEffect(() => {
+    if (partnerId) return;
+    joinedPartnerSessionRef.current = false;
+    setIsPartnerOnline(false);
+    setPartnerStatus(null);
+    setSession(null);
+  }, [partnerId]);
+
+  // Retry straight away rather than waiting out the backoff when the app
+  // comes to the foreground or the network returns
+  const reconnectNow = useCallback(() => {
+    const socket = socketRef.current;
+    if (socket && !socket.connected && !protocolError) {
+      socket.connect();
+    }
+  }, [protocolError]);
 
-  const startListening = useCallback((data: {
-    playlistId: string;
-    playlistName: string;
-    trackUri: string;
-    trackName: string;
-    artistName: string;
-    positionMs: number;
-  }) => {
-    socketRef.current?.emit('listening:start', data);
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') reconnectNow();
+    });
+    return () => subscription.remove();
+  }, [reconnectNow]);
+
+  useEffect(() => {
+    return subscribeNetwork((online) => {
+      // After a protocol error the socket stays down until the next sign-in
+      if (!socketRef.current || protocolError) return;
+
+      if (online) {
+        dispatch('network_restored');
+        reconnectNow();
+      } else {
+        dispatch('network_lost');
+      }
+    });
+  }, [dispatch, reconnectNow, protocolError]);
+
+  const startListening = useCallback((data: ListeningStart) => {
+    listeningRef.current = data;
+    pendingUpdateRef.current = null;
+    // Sent with the resume if we're disconnected
+    if (connectionStateRef.current === 'connected') {
+      socketRef.current?.emit('listening:start', data);
+    }
   }, []);
 
-  const updateListening = useCallback((data: {
-    trackUri: string;
-    trackName?: string;
-    artistName?: string;
-    positionMs: number;
-    isPlaying: boolean;
-  }) => {
-    socketRef.current?.emit('listening:update', data);
+  const updateListening = useCallback((data: ListeningUpdate) => {
+    if (connectionStateRef.current === 'connected') {
+      socketRef.current?.emit('listening:update', data);
+    } else {
+      pendingUpdateRef.current = data;
+    }
   }, []);
 
   const stopListening = useCallback(() => {
-    socketRef.current?.emit('listening:stop');
+    listeningRef.current = null;
+    pendingUpdateRef.current = null;
+    if (connectionStateRef.current === 'connected') {
+      socketRef.current?.emit('listening:stop');
+    }
   }, []);
 
   const joinPartnerSession = useCallback(() => {
-    socketRef.current?.emit('session:join');
+    joinedPartnerSessionRef.current = true;
+    if (connectionStateRef.current === 'connected') {
+      socketRef.current?.emit('session:join');
+    }
   }, []);
 
-  const onSyncCommand = useCallback((callback: (command: SyncCommand) => void) => {
-    const handler = (data: SyncCommand) => {
-      console.log('🔄 Sync command received:', data);
-      callback(data);
+  const sendTransport = useCallback((action: TransportAction) => {
+    if (roleRef.current !== 'host') {
+      console.warn('Only the host can control a shared session');
+      return;
+    }
+
+    // Mirror locally right away; the server relays it to followers
+    setSession((current) =>
+      current
+        ? { ...current, playback: applyTransport(current.playback, action, clockSync.serverNow()) }
+        : current
+    );
+    if (connectionStateRef.current === 'connected') {
+      socketRef.current?.emit('session:transport', action);
+    }
+  }, []);
+
+  const takeControl = useCallback(async (): Promise<boolean> => {
+    const socket = socketRef.current;
+    if (!socket || connectionStateRef.current !== 'connected') return false;
+
+    try {
+      const response = await socket.timeout(ACK_TIMEOUT_MS).emitWithAck('session:takeover');
+      const ack = parse(sessionTakeoverAckSchema, response, false);
+      if (ack.session) setSession(ack.session);
+      return ack.ok;
+    } catch (error) {
+      console.error('Take control failed:', error);
+      return false;
+    }
+  }, []);
+
+  const leaveSession = useCallback(() => {
+    joinedPartnerSessionRef.current = false;
+    setSession(null);
+    if (connectionStateRef.current === 'connected') {
+      socketRef.current?.emit('session:leave');
+    }
+  }, []);
+
+  const onTransport = useCallback((callback: (event: TransportEvent) => void) => {
+    const listeners = transportListenersRef.current;
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
     };
-    socketRef.current?.on('session:sync', handler);
+  }, []);
+
+  const onSyncCommand = useCallback((callback: (command: SyncCommand) => void) => {
+    const listeners = syncListenersRef.current;
+    listeners.add(callback);
     return () => {
-      socketRef.current?.off('session:sync', handler);
+      listeners.delete(callback);
     };
   }, []);
 
-  const onSessionJoined = useCallback((callback: (data: { spotifyId: string; message: string }) => void) => {
-    const handler = (data: { spotifyId: string; message: string }) => {
-      console.log('💕 Session joined:', data);
-      callback(data);
+  const onSessionJoined = useCallback((callback: (data: SessionJoined) => void) => {
+    const listeners = joinedListenersRef.current;
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
     };
-    socketRef.current?.on('session:joined', handler);
+  }, []);
+
+  const onPartnershipCreated = useCallback(
+    (callback: (data: PartnershipCreated) => void) => {
+      const listeners = partnershipListenersRef.current;
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+    []
+  );
+
+  const onInviteDeclined = useCallback((callback: (data: InviteDeclined) => void) => {
+    const listeners = declinedListenersRef.current;
+    listeners.add(callback);
     return () => {
-      socketRef.current?.off('session:joined', handler);
+      listeners.delete(callback);
     };
   }, []);
 
   return (
     <SocketContext.Provider
       value={{
+        connectionState,
         isConnected,
         isPartnerOnline,
         partnerStatus,
+        protocolError,
         startListening,
         updateListening,
         stopListening,
         joinPartnerSession,
+        session,
+        role,
+        sendTransport,
+        takeControl,
+        leaveSession,
+        onTransport,
         onSyncCommand,
         onSessionJoined,
+        onPartnershipCreated,
+        onInviteDeclined,
       }}
     >
       {children}
@@ -4,4 +4,13 @@
 
 export { AuthProvider, useAuth } from './AuthContext';
 export { SocketProvider, useSocket } from './SocketContext';
-export type { PartnerStatus, SyncCommand } from './SocketContext';
+export { PlaybackProvider, usePlayback } from './PlaybackContext';
+export type {
+  ConnectionState,
+  PartnerStatus,
+  SessionRole,
+  SharedSession,
+  SyncCommand,
+  TransportAction,
+  TransportEvent,
+} from './SocketContext';
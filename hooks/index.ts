@@ -4,3 +4,10 @@
 
 export { useAuth } from './useAuth';
 export { useSocket } from './useSocket';
+export { usePlayback } from './usePlayback';
+export { useQuery } from './useQuery';
+export { useNetworkStatus } from './useNetworkStatus';
+export { useOutbox } from './useOutbox';
+export { useInfiniteQuery } from './useInfiniteQuery';
+export { usePlaybackProgress } from './usePlaybackProgress';
+export { useCountdown } from './useCountdown';
@@ -0,0 +1,26 @@
+/**
+ * useCountdown - Time left until a deadline, ticking every second
+ *
+ * Stops ticking once the deadline has passed.
+ */
+
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 1000;
+
+/** Milliseconds until `deadline` (a timestamp), 0 once passed, or null without one */
+export function useCountdown(deadline: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+  const isRunning = deadline !== null && deadline > now;
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  if (deadline === null) return null;
+  return Math.max(deadline - now, 0);
+}
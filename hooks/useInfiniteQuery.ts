@@ -0,0 +1,116 @@
+/**
+ * useInfiniteQuery - Paginated reads through the query cache
+ *
+ * Pages are stored together under one key, so caching, persistence and
+ * invalidation work as with useQuery. Further pages are loaded on demand
+ * with fetchNextPage (e.g. from a FlatList's onEndReached). Revalidating
+ * reloads the pages that were loaded, up to a limit, so a refresh doesn't
+ * collapse a list the user has scrolled through but doesn't replay a long
+ * one request by request either.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { queryCache, hashQueryKey, QueryKey } from '@/lib/queryCache';
+import { isOnline } from '@/lib/network';
+import { useQuery } from './useQuery';
+
+// Most pages a revalidation reloads; any further ones are dropped and
+// loaded again on demand
+const MAX_REVALIDATED_PAGES = 3;
+
+export interface InfiniteData<TPage> {
+  pages: TPage[];
+}
+
+interface UseInfiniteQueryOptions {
+  ttlMs?: number;
+  enabled?: boolean;
+  persist?: boolean;
+}
+
+export function useInfiniteQuery<TPage>(
+  key: QueryKey,
+  fetchPage: (cursor: string | null, signal: AbortSignal) => Promise<TPage>,
+  getNextCursor: (page: TPage) => string | null | undefined,
+  options: UseInfiniteQueryOptions = {}
+) {
+  const hash = hashQueryKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetchPageRef = useRef(fetchPage);
+  const getNextCursorRef = useRef(getNextCursor);
+  useEffect(() => {
+    fetchPageRef.current = fetchPage;
+    getNextCursorRef.current = getNextCursor;
+  });
+
+  const query = useQuery<InfiniteData<TPage>>(
+    stableKey,
+    async (signal) => {
+      const loaded = queryCache.getSnapshot<InfiniteData<TPage>>(stableKey).data?.pages.length;
+      const pageCount = Math.min(Math.max(loaded ?? 1, 1), MAX_REVALIDATED_PAGES);
+
+      // Page by page, since each cursor comes from the page before
+      const refreshed: TPage[] = [];
+      let cursor: string | null = null;
+      do {
+        const page: TPage = await fetchPageRef.current(cursor, signal);
+        refreshed.push(page);
+        cursor = getNextCursorRef.current(page) ?? null;
+      } while (cursor !== null && refreshed.length < pageCount);
+
+      return { pages: refreshed };
+    },
+    options
+  );
+
+  const pages = query.data?.pages;
+  const lastPage = pages?.[pages.length - 1];
+  const nextCursor = lastPage ? getNextCursor(lastPage) ?? null : null;
+
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const nextPageController = useRef<AbortController | null>(null);
+
+  // Abandon a page request when the screen goes away or the key changes
+  useEffect(() => {
+    return () => {
+      nextPageController.current?.abort();
+      nextPageController.current = null;
+      setIsFetchingNextPage(false);
+    };
+  }, [stableKey]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (!pages || !nextCursor || nextPageController.current || !isOnline()) return;
+
+    const controller = new AbortController();
+    nextPageController.current = controller;
+    setIsFetchingNextPage(true);
+
+    try {
+      const page = await fetchPageRef.current(nextCursor, controller.signal);
+
+      // A revalidation in the meantime replaced the pages
+      if (queryCache.getSnapshot<InfiniteData<TPage>>(stableKey).data?.pages === pages) {
+        queryCache.setData<InfiniteData<TPage>>(stableKey, { pages: [...pages, page] });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error fetching next page:', error);
+      }
+    } finally {
+      if (nextPageController.current === controller) {
+        nextPageController.current = null;
+        setIsFetchingNextPage(false);
+      }
+    }
+  }, [pages, nextCursor, stableKey]);
+
+  return {
+    ...query,
+    pages,
+    hasNextPage: nextCursor !== null,
+    isFetchingNextPage,
+    fetchNextPage,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * useNetworkStatus - Re-render when the device goes online or offline
+ */
+
+import { useSyncExternalStore } from 'react';
+import { isOnline, subscribeNetwork } from '@/lib/network';
+
+export function useNetworkStatus() {
+  const online = useSyncExternalStore(subscribeNetwork, isOnline);
+  return { isOnline: online };
+}
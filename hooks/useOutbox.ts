@@ -0,0 +1,13 @@
+/**
+ * useOutbox - Mutations waiting to be sent, for pending/failed UI
+ */
+
+import { useSyncExternalStore } from 'react';
+import { outbox } from '@/lib/outbox';
+
+const subscribe = (listener: () => void) => outbox.subscribe(listener);
+const getEntries = () => outbox.getEntries();
+
+export function useOutbox() {
+  return useSyncExternalStore(subscribe, getEntries);
+}
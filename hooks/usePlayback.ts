@@ -0,0 +1,5 @@
+/**
+ * Re-export usePlayback hook for convenience
+ */
+
+export { usePlayback } from '@/contexts/PlaybackContext';
@@ -0,0 +1,41 @@
+/**
+ * usePlaybackProgress - Current playback position, ticking locally
+ *
+ * Playback is reported occasionally as a position sampled at `updatedAt`
+ * (server time). In between, the position is extrapolated on this device
+ * (see extrapolatePosition) and re-rendered every tick while playing.
+ */
+
+import { useEffect, useState } from 'react';
+import { extrapolatePosition } from '@/lib/clockSync';
+
+const TICK_MS = 500;
+
+interface ReportedPlayback {
+  positionMs?: number;
+  updatedAt?: number;
+  isPlaying?: boolean;
+  durationMs?: number;
+}
+
+/** Position in ms, or null when nothing has been reported */
+export function usePlaybackProgress(playback: ReportedPlayback | null): number | null {
+  const [, setTick] = useState(0);
+  const isPlaying = playback?.isPlaying !== false && playback?.positionMs !== undefined;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => setTick((tick) => tick + 1), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  if (!playback || playback.positionMs === undefined) return null;
+
+  return extrapolatePosition({
+    positionMs: playback.positionMs,
+    updatedAt: playback.updatedAt,
+    isPlaying: playback.isPlaying,
+    durationMs: playback.durationMs,
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * useQuery - Read API data through the query cache
+ *
+ * Renders cached data straight away and revalidates in the background once
+ * it is older than `ttlMs`. The request is cancelled if every screen using
+ * the key unmounts before it completes.
+ *
+ * With `persist`, the last result survives restarts and is shown while
+ * offline; fetching waits until the device is back online.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  queryCache,
+  hashQueryKey,
+  QueryFetcher,
+  QueryKey,
+} from '@/lib/queryCache';
+import { useNetworkStatus } from './useNetworkStatus';
+
+const DEFAULT_TTL_MS = 60 * 1000;
+
+interface UseQueryOptions {
+  ttlMs?: number;
+  enabled?: boolean;
+  persist?: boolean;
+}
+
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { ttlMs = DEFAULT_TTL_MS, enabled = true, persist = false }: UseQueryOptions = {}
+) {
+  // Keys are compared by value, not identity
+  const hash = hashQueryKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  // Always call the latest fetcher without refetching on every render
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(stableKey, listener),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(
+    () => queryCache.getSnapshot<T>(stableKey),
+    [stableKey]
+  );
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+  const { isOnline } = useNetworkStatus();
+
+  const refetch = useCallback(
+    () => queryCache.fetch(stableKey, (signal) => fetcherRef.current(signal), { persist }),
+    [stableKey, persist]
+  );
+
+  // Revalidate stale data on mount, whenever the key changes and when the
+  // device comes back online
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    (async () => {
+      if (persist) await queryCache.hydrate(stableKey);
+      if (!cancelled && isOnline && queryCache.isStale(stableKey, ttlMs)) {
+        refetch().catch(() => {});
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, persist, isOnline, stableKey, ttlMs, refetch]);
+
+  return {
+    data: snapshot.data,
+    error: snapshot.error,
+    // Nothing to wait for while offline without cached data
+    isLoading: enabled && isOnline && snapshot.data === undefined && !snapshot.error,
+    isFetching: snapshot.isFetching,
+    updatedAt: snapshot.updatedAt,
+    isOffline: !isOnline,
+    refetch,
+  };
+}
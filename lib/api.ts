@@ -1,13 +1,117 @@
 /**
  * API Client for Echoes of You and I
  * 
- * All endpoints require spotifyId for authentication
+ * Authenticated endpoints send the session token as a bearer credential.
+ * The token is opaque to the app - the backend maps it to the Spotify user.
+ * Failed requests reject with an ApiError subclass (see errors.ts).
+ *
+ * Every request has a timeout and can be cancelled with an AbortSignal.
+ * Idempotent GETs are retried with exponential backoff on transient errors.
+ * Mutations accept an idempotency key so a replayed request (see outbox.ts)
+ * is applied at most once.
+ *
+ * Every response body is checked against a schema (see schema.ts) before it
+ * reaches the app. In development a malformed payload fails loudly with a
+ * ValidationError naming the field; in production malformed list items are
+ * dropped instead.
  */
 
 import { config } from './config';
+import {
+  ApiError,
+  CancelledError,
+  NetworkError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+  createApiError,
+} from './errors';
+import {
+  Schema,
+  SchemaError,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+} from './schema';
 
 const API_URL = config.apiUrl;
 
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_GET_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8 * 1000;
+
+// Don't sit on a request longer than this just because Retry-After says so
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+/** Per-call options accepted by the read endpoints */
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** Options accepted by the paginated list endpoints */
+export interface PageOptions extends CallOptions {
+  /** Opaque cursor from the previous page's `nextCursor`; omit for the first page */
+  cursor?: string | null;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+function pageQuery({ cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions): string {
+  const query = `?limit=${limit}`;
+  return cursor ? `${query}&cursor=${encodeURIComponent(cursor)}` : query;
+}
+
+/** Options accepted by the mutation endpoints */
+export interface MutationOptions {
+  /** Sent as Idempotency-Key; the backend ignores repeats of the same key */
+  idempotencyKey?: string;
+}
+
+function idempotencyHeaders(options: MutationOptions): Record<string, string> {
+  return options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {};
+}
+
+interface RequestOptions extends RequestInit {
+  timeoutMs?: number;
+  /** Defaults to DEFAULT_GET_RETRIES for GET, 0 otherwise */
+  retries?: number;
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
 export interface User {
   id: string;
   displayName: string;
@@ -15,12 +119,50 @@ export interface User {
   images?: { url: string }[];
 }
 
+const userSchema: Schema<User> = object({
+  id: string(),
+  displayName: string(),
+  email: optional(string()),
+  images: optional(array(object({ url: string() }))),
+});
+
 export interface AuthMeResponse {
   user: User;
   partnerId: string | null;
   tokenExpiresAt: string;
 }
 
+const authMeResponseSchema: Schema<AuthMeResponse> = object({
+  user: userSchema,
+  partnerId: nullable(string()),
+  tokenExpiresAt: string(),
+});
+
+export interface PartnerProfile {
+  id: string;
+  displayName: string;
+  images?: { url: string }[];
+  /** When the partnership was created (ISO 8601) */
+  partnershipStartedAt: string;
+}
+
+const partnerProfileSchema: Schema<PartnerProfile> = object({
+  id: string(),
+  displayName: string(),
+  images: optional(array(object({ url: string() }))),
+  partnershipStartedAt: string(),
+});
+
+export interface SessionTokenResponse {
+  sessionToken: string;
+  tokenExpiresAt: string;
+}
+
+const sessionTokenResponseSchema: Schema<SessionTokenResponse> = object({
+  sessionToken: string(),
+  tokenExpiresAt: string(),
+});
+
 export interface Playlist {
   id: string;
   name: string;
@@ -31,6 +173,16 @@ export interface Playlist {
   collaborative: boolean;
 }
 
+const playlistSchema: Schema<Playlist> = object({
+  id: string(),
+  name: string(),
+  description: optional(string()),
+  trackCount: number(),
+  image: nullable(string()),
+  owner: string(),
+  collaborative: boolean(),
+});
+
 export interface Track {
   id: string;
   name: string;
@@ -43,126 +195,566 @@ export interface Track {
   addedBy: string;
 }
 
+const trackSchema: Schema<Track> = object({
+  id: string(),
+  name: string(),
+  uri: string(),
+  durationMs: number(),
+  artists: string(),
+  album: string(),
+  albumImage: nullable(string()),
+  addedAt: string(),
+  addedBy: string(),
+});
+
+export interface PlaylistsPage {
+  playlists: Playlist[];
+  nextCursor?: string | null;
+}
+
+export interface PlaylistTracksPage {
+  playlistId: string;
+  /** Total number of tracks in the playlist, not just this page */
+  trackCount: number;
+  tracks: Track[];
+  nextCursor?: string | null;
+}
+
+/** Revoked invites are listed until the backend prunes them */
+export type InviteStatus = 'pending' | 'expired' | 'declined' | 'accepted' | 'revoked';
+
 export interface Invite {
   code: string;
   url: string;
   expiresAt: string;
   createdAt?: string;
-  status?: string;
+  /** As the backend last saw it; a pending invite may have expired since */
+  status?: InviteStatus;
   inviter?: {
     spotifyId: string;
     displayName: string;
   };
 }
 
+const inviteSchema: Schema<Invite> = object({
+  code: string(),
+  url: string(),
+  expiresAt: string(),
+  createdAt: optional(string()),
+  status: optional(oneOf('pending', 'expired', 'declined', 'accepted', 'revoked')),
+  inviter: optional(object({
+    spotifyId: string(),
+    displayName: string(),
+  })),
+});
+
+// Current Spotify playback, as proxied by the backend
+export interface PlaybackTrack {
+  uri: string;
+  name: string;
+  artists: string;
+  album: string;
+  albumImage: string | null;
+  durationMs: number;
+}
+
+export interface PlaybackDevice {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface PlaybackState {
+  isPlaying: boolean;
+  positionMs: number;
+  track: PlaybackTrack | null;
+  /** Set when playing from one of our playlists */
+  playlistId: string | null;
+  playlistName: string | null;
+  device: PlaybackDevice | null;
+}
+
+const playbackStateSchema: Schema<PlaybackState> = object({
+  isPlaying: boolean(),
+  positionMs: number(),
+  track: nullable(object({
+    uri: string(),
+    name: string(),
+    artists: string(),
+    album: string(),
+    albumImage: nullable(string()),
+    durationMs: number(),
+  })),
+  playlistId: nullable(string()),
+  playlistName: nullable(string()),
+  device: nullable(object({
+    id: string(),
+    name: string(),
+    type: string(),
+  })),
+});
+
+/** A Spotify Connect device the user can play on */
+export interface SpotifyDevice extends PlaybackDevice {
+  isActive: boolean;
+  /** Restricted devices (e.g. some speakers) don't accept remote commands */
+  isRestricted: boolean;
+  volumePercent: number | null;
+}
+
+const spotifyDeviceSchema: Schema<SpotifyDevice> = object({
+  id: string(),
+  name: string(),
+  type: string(),
+  isActive: boolean(),
+  isRestricted: boolean(),
+  volumePercent: nullable(number()),
+});
+
+/** What to start playing; with no arguments, resumes the current playback */
+export interface PlayParams {
+  /** Play this playlist as the context... */
+  playlistId?: string;
+  /** ...starting at this track (by URI or index) */
+  offset?: { uri: string } | { position: number };
+  /** Or play these tracks without a context */
+  uris?: string[];
+  positionMs?: number;
+  /** Target device; defaults to the active one */
+  deviceId?: string;
+}
+
+// Response envelopes
+const emptySchema = object({});
+const playbackResponseSchema = object({ playback: nullable(playbackStateSchema) });
+const devicesResponseSchema = object({ devices: array(spotifyDeviceSchema) });
+const messageSchema = object({ message: string() });
+const playlistsResponseSchema = object({
+  playlists: array(playlistSchema),
+  nextCursor: optional(nullable(string())),
+});
+const partnerResponseSchema = object({ partner: nullable(partnerProfileSchema) });
+const playlistResponseSchema = object({ playlist: playlistSchema });
+const createPlaylistResponseSchema = object({ message: string(), playlist: playlistSchema });
+const playlistTracksResponseSchema = object({
+  playlistId: string(),
+  trackCount: number(),
+  tracks: array(trackSchema),
+  nextCursor: optional(nullable(string())),
+});
+const invitesResponseSchema = object({ invites: array(inviteSchema) });
+const inviteResponseSchema = object({ invite: inviteSchema });
+const createInviteResponseSchema = object({ message: string(), invite: inviteSchema });
+const acceptInviteResponseSchema = object({
+  message: string(),
+  partnership: object({ partner: userSchema }),
+});
+
 class ApiClient {
   private baseUrl: string;
+  private sessionToken: string | null = null;
+  private refreshHandler: (() => Promise<boolean>) | null = null;
+  private pendingRefresh: Promise<boolean> | null = null;
+  // Drop malformed list items in production rather than failing the screen
+  private lenientValidation = !__DEV__;
 
   constructor() {
     this.baseUrl = API_URL;
   }
 
-  private async request<T>(
+  // Session token used for the Authorization header on every request
+  setSessionToken(token: string | null): void {
+    this.sessionToken = token;
+  }
+
+  getSessionToken(): string | null {
+    return this.sessionToken;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.sessionToken
+      ? { Authorization: `Bearer ${this.sessionToken}` }
+      : {};
+  }
+
+  // Called when a request is rejected with 401; resolves true if the
+  // session was renewed and the request may be retried
+  setRefreshHandler(handler: (() => Promise<boolean>) | null): void {
+    this.refreshHandler = handler;
+  }
+
+  // Concurrent 401s share a single refresh
+  private refreshOnce(): Promise<boolean> {
+    if (!this.refreshHandler) return Promise.resolve(false);
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshHandler()
+        .catch(() => false)
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * fetch() with a timeout and the caller's abort signal. The timeout also
+   * covers `read`, so a body that stalls halfway can't hang the request.
+   * Transport failures are mapped to NetworkError / TimeoutError /
+   * CancelledError.
+   */
+  private async fetchWithTimeout<R>(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    read: (response: Response) => Promise<R>
+  ): Promise<R> {
+    const { signal, ...rest } = init;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      const response = await fetch(url, { ...rest, signal: controller.signal });
+      return await read(response);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      if (timedOut) throw new TimeoutError(undefined, { cause: error });
+      if (signal?.aborted) throw new CancelledError(undefined, { cause: error });
+      throw new NetworkError(undefined, { cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Decode and validate a successful response
+  private async parseBody<T>(response: Response, schema: Schema<T>): Promise<T> {
+    const requestId = response.headers.get('x-request-id');
+    let body: unknown;
+
+    // Outside the try below: a body that fails to arrive is a transport error
+    const text = await response.text();
+
+    try {
+      // Commands (e.g. Spotify Connect playback) may answer 204 No Content
+      body = response.status === 204 || text.trim() === '' ? {} : JSON.parse(text);
+    } catch (error) {
+      throw new ValidationError('Response was not valid JSON', {
+        status: response.status,
+        requestId,
+        cause: error,
+      });
+    }
+
+    try {
+      return parse(schema, body, this.lenientValidation);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      console.error(`Invalid response from ${response.url}:`, error.message);
+      throw new ValidationError(`Unexpected response: ${error.message}`, {
+        status: response.status,
+        requestId,
+        path: error.path,
+        cause: error,
+      });
+    }
+  }
+
+  private async send<T>(
     endpoint: string,
-    options: RequestInit = {}
+    schema: Schema<T>,
+    init: RequestInit,
+    timeoutMs: number,
+    isRetry = false
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
+    const result = await this.fetchWithTimeout(
+      `${this.baseUrl}${endpoint}`,
+      {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.authHeaders(),
+          ...init.headers,
+        },
       },
-    });
+      timeoutMs,
+      async (response) => {
+        if (!response.ok) {
+          return { error: await createApiError(response) };
+        }
+        return { data: await this.parseBody(response, schema) };
+      }
+    );
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Request failed' }));
-      throw new Error(error.error || `API Error: ${response.status}`);
+    if ('error' in result) {
+      // Expired session: renew once and replay the request
+      if (result.error instanceof UnauthorizedError && !isRetry && this.sessionToken) {
+        if (await this.refreshOnce()) {
+          return this.send(endpoint, schema, init, timeoutMs, true);
+        }
+      }
+      throw result.error;
     }
 
-    return response.json();
+    return result.data;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    schema: Schema<T>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, ...init } = options;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const maxRetries = retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(endpoint, schema, init, timeoutMs);
+      } catch (error) {
+        const canRetry =
+          error instanceof ApiError &&
+          error.retryable &&
+          attempt < maxRetries &&
+          (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS;
+
+        if (!canRetry) throw error;
+
+        // Honour Retry-After (429/503) when the server sends one
+        await sleep(error.retryAfterMs ?? backoffDelay(attempt), init.signal);
+      }
+    }
   }
 
   // Auth endpoints
-  getLoginUrl(): string {
-    return `${this.baseUrl}/auth/login`;
+
+  // Redeem a Spotify authorization code (PKCE) for a session token
+  async exchangeAuthCode(params: {
+    code: string;
+    codeVerifier: string;
+    redirectUri: string;
+  }): Promise<SessionTokenResponse> {
+    return this.request('/auth/token', sessionTokenResponseSchema, {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
   }
 
-  async getMe(spotifyId: string): Promise<AuthMeResponse> {
-    return this.request(`/auth/me?spotifyId=${encodeURIComponent(spotifyId)}`);
+  async getMe(options: CallOptions = {}): Promise<AuthMeResponse> {
+    return this.request('/auth/me', authMeResponseSchema, options);
   }
 
-  async logout(spotifyId: string): Promise<void> {
-    await this.request('/auth/logout', {
+  /**
+   * Renew the current session. Resolves null when the backend rejects the
+   * session outright (revoked or expired past its grace period); throws on
+   * transient failures so callers can retry later.
+   */
+  async refreshSession(): Promise<SessionTokenResponse | null> {
+    return this.fetchWithTimeout(
+      `${this.baseUrl}/auth/refresh`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.authHeaders(),
+        },
+      },
+      DEFAULT_TIMEOUT_MS,
+      async (response) => {
+        if (response.status === 401 || response.status === 403) {
+          return null;
+        }
+
+        if (!response.ok) {
+          throw await createApiError(response);
+        }
+
+        return this.parseBody(response, sessionTokenResponseSchema);
+      }
+    );
+  }
+
+  async logout(): Promise<void> {
+    await this.request('/auth/logout', emptySchema, {
       method: 'POST',
-      body: JSON.stringify({ spotifyId }),
+    });
+  }
+
+  // The signed-in user's partner; null when unpaired
+  async getPartner(options: CallOptions = {}): Promise<{ partner: PartnerProfile | null }> {
+    return this.request('/partner', partnerResponseSchema, options);
+  }
+
+  // End the partnership. The backend notifies the other partner over the
+  // socket (partnership:ended).
+  async unpair(options: MutationOptions = {}): Promise<{ message: string }> {
+    return this.request('/partner', messageSchema, {
+      method: 'DELETE',
+      headers: idempotencyHeaders(options),
     });
   }
 
   // Playlist endpoints
-  async getPlaylists(spotifyId: string): Promise<{ playlists: Playlist[] }> {
-    return this.request(`/playlists?spotifyId=${encodeURIComponent(spotifyId)}`);
+  // Paginated; `nextCursor` is null (or absent) on the last page
+  async getPlaylists(options: PageOptions = {}): Promise<PlaylistsPage> {
+    const { cursor, limit, ...callOptions } = options;
+    return this.request(
+      `/playlists${pageQuery({ cursor, limit })}`,
+      playlistsResponseSchema,
+      callOptions
+    );
   }
 
   async createPlaylist(
-    spotifyId: string,
-    name: string
+    name: string,
+    options: MutationOptions = {}
   ): Promise<{ message: string; playlist: Playlist }> {
-    return this.request('/playlists', {
+    return this.request('/playlists', createPlaylistResponseSchema, {
       method: 'POST',
-      body: JSON.stringify({ spotifyId, name }),
+      headers: idempotencyHeaders(options),
+      body: JSON.stringify({ name }),
     });
   }
 
   async getPlaylist(
     playlistId: string,
-    spotifyId: string
+    options: CallOptions = {}
   ): Promise<{ playlist: Playlist }> {
-    return this.request(
-      `/playlists/${playlistId}?spotifyId=${encodeURIComponent(spotifyId)}`
-    );
+    return this.request(`/playlists/${playlistId}`, playlistResponseSchema, options);
   }
 
+  // Paginated; every page carries the playlist's total trackCount
   async getPlaylistTracks(
     playlistId: string,
-    spotifyId: string
-  ): Promise<{ playlistId: string; trackCount: number; tracks: Track[] }> {
+    options: PageOptions = {}
+  ): Promise<PlaylistTracksPage> {
+    const { cursor, limit, ...callOptions } = options;
     return this.request(
-      `/playlists/${playlistId}/tracks?spotifyId=${encodeURIComponent(spotifyId)}`
+      `/playlists/${playlistId}/tracks${pageQuery({ cursor, limit })}`,
+      playlistTracksResponseSchema,
+      callOptions
     );
   }
 
   // Invite endpoints
-  async createInvite(spotifyId: string): Promise<{ message: string; invite: Invite }> {
-    return this.request('/invites', {
+  async createInvite(
+    options: MutationOptions = {}
+  ): Promise<{ message: string; invite: Invite }> {
+    return this.request('/invites', createInviteResponseSchema, {
       method: 'POST',
-      body: JSON.stringify({ spotifyId }),
+      headers: idempotencyHeaders(options),
     });
   }
 
-  async getMyInvites(spotifyId: string): Promise<{ invites: Invite[] }> {
-    return this.request(`/invites/mine?spotifyId=${encodeURIComponent(spotifyId)}`);
+  async getMyInvites(options: CallOptions = {}): Promise<{ invites: Invite[] }> {
+    return this.request('/invites/mine', invitesResponseSchema, options);
   }
 
-  async getInvite(code: string): Promise<{ invite: Invite }> {
-    return this.request(`/invites/${code}`);
+  // Revoking a leaked link stops it from being accepted
+  async revokeInvite(
+    code: string,
+    options: MutationOptions = {}
+  ): Promise<{ message: string }> {
+    return this.request(`/invites/${code}`, messageSchema, {
+      method: 'DELETE',
+      headers: idempotencyHeaders(options),
+    });
+  }
+
+  // Revokes the invite and issues a new one with a fresh code and expiry
+  async regenerateInvite(
+    code: string,
+    options: MutationOptions = {}
+  ): Promise<{ message: string; invite: Invite }> {
+    return this.request(`/invites/${code}/regenerate`, createInviteResponseSchema, {
+      method: 'POST',
+      headers: idempotencyHeaders(options),
+    });
+  }
+
+  async getInvite(code: string, options: CallOptions = {}): Promise<{ invite: Invite }> {
+    return this.request(`/invites/${code}`, inviteResponseSchema, options);
   }
 
   async acceptInvite(
     code: string,
-    spotifyId: string
+    options: MutationOptions = {}
   ): Promise<{ message: string; partnership: { partner: User } }> {
-    return this.request(`/invites/${code}/accept`, {
+    return this.request(`/invites/${code}/accept`, acceptInviteResponseSchema, {
+      method: 'POST',
+      headers: idempotencyHeaders(options),
+    });
+  }
+
+  // Playback endpoints (the backend proxies Spotify Connect)
+  async getPlaybackState(
+    options: CallOptions = {}
+  ): Promise<{ playback: PlaybackState | null }> {
+    return this.request('/playback', playbackResponseSchema, options);
+  }
+
+  async play(params: PlayParams = {}): Promise<void> {
+    await this.request('/playback/play', emptySchema, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async getDevices(options: CallOptions = {}): Promise<{ devices: SpotifyDevice[] }> {
+    return this.request('/playback/devices', devicesResponseSchema, options);
+  }
+
+  // Move playback to another device, optionally starting it there
+  async transferPlayback(deviceId: string, play = false): Promise<void> {
+    await this.request('/playback/transfer', emptySchema, {
+      method: 'PUT',
+      body: JSON.stringify({ deviceId, play }),
+    });
+  }
+
+  async pause(): Promise<void> {
+    await this.request('/playback/pause', emptySchema, {
+      method: 'PUT',
+    });
+  }
+
+  async skipToNext(): Promise<void> {
+    await this.request('/playback/next', emptySchema, {
+      method: 'POST',
+    });
+  }
+
+  async skipToPrevious(): Promise<void> {
+    await this.request('/playback/previous', emptySchema, {
       method: 'POST',
-      body: JSON.stringify({ spotifyId }),
     });
   }
 
-  async declineInvite(code: string, spotifyId: string): Promise<{ message: string }> {
-    return this.request(`/invites/${code}/decline`, {
+  async seek(positionMs: number): Promise<void> {
+    await this.request('/playback/seek', emptySchema, {
+      method: 'PUT',
+      body: JSON.stringify({ positionMs: Math.max(Math.round(positionMs), 0) }),
+    });
+  }
+
+  async declineInvite(
+    code: string,
+    options: MutationOptions = {}
+  ): Promise<{ message: string }> {
+    return this.request(`/invites/${code}/decline`, messageSchema, {
       method: 'POST',
-      body: JSON.stringify({ spotifyId }),
+      headers: idempotencyHeaders(options),
     });
   }
 }
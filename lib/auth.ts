@@ -0,0 +1,186 @@
+/**
+ * Spotify sign-in using the Authorization Code flow with PKCE
+ *
+ * The code verifier and challenge are generated on device. Spotify redirects
+ * back to echoes://auth/callback with an authorization code, which the
+ * backend exchanges (together with the verifier) for our session token.
+ */
+
+import * as AuthSession from 'expo-auth-session';
+import { api, SessionTokenResponse } from './api';
+import { config } from './config';
+import {
+  getPendingAuthRequest,
+  setPendingAuthRequest,
+  removePendingAuthRequest,
+} from './storage';
+
+export type AuthErrorCode =
+  | 'cancelled'
+  | 'denied'
+  | 'state_mismatch'
+  | 'expired_request'
+  | 'pkce_unavailable'
+  | 'authorization_failed'
+  | 'exchange_failed';
+
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+export interface AuthRedirectParams {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+const SPOTIFY_DISCOVERY: AuthSession.DiscoveryDocument = {
+  authorizationEndpoint: 'https://accounts.spotify.com/authorize',
+  tokenEndpoint: 'https://accounts.spotify.com/api/token',
+};
+
+const SCOPES = [
+  'user-read-email',
+  'user-read-private',
+  'playlist-read-private',
+  'playlist-read-collaborative',
+  'playlist-modify-private',
+  'playlist-modify-public',
+  'user-read-playback-state',
+  'user-modify-playback-state',
+  'user-read-currently-playing',
+];
+
+// Pending requests older than this are discarded
+const PENDING_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+export const AUTH_REDIRECT_URI = AuthSession.makeRedirectUri({
+  scheme: 'echoes',
+  path: 'auth/callback',
+});
+
+// Exchanges keyed by state, so the login prompt and the callback route
+// can't redeem the same authorization code twice
+const exchanges = new Map<string, Promise<SessionTokenResponse>>();
+
+function fromOAuthError(error: string): AuthError {
+  switch (error) {
+    case 'access_denied':
+      return new AuthError('denied', 'Spotify access was denied.');
+    case 'state_mismatch':
+      return new AuthError(
+        'state_mismatch',
+        'The sign-in response could not be verified. Please try again.'
+      );
+    default:
+      return new AuthError('authorization_failed', `Spotify sign-in failed (${error}).`);
+  }
+}
+
+async function redeem(params: AuthRedirectParams): Promise<SessionTokenResponse> {
+  const pending = await getPendingAuthRequest();
+
+  if (!pending || Date.now() - pending.createdAt > PENDING_REQUEST_TTL_MS) {
+    await removePendingAuthRequest();
+    throw new AuthError('expired_request', 'This sign-in attempt has expired. Please try again.');
+  }
+
+  if (!params.state || params.state !== pending.state) {
+    throw fromOAuthError('state_mismatch');
+  }
+
+  // The request is single-use from here on
+  await removePendingAuthRequest();
+
+  if (params.error) {
+    throw fromOAuthError(params.error);
+  }
+
+  if (!params.code) {
+    throw new AuthError('authorization_failed', 'Spotify did not return an authorization code.');
+  }
+
+  try {
+    return await api.exchangeAuthCode({
+      code: params.code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: pending.redirectUri,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error && error.message;
+    throw new AuthError('exchange_failed', message || 'Could not complete sign-in.');
+  }
+}
+
+/**
+ * Finish a sign-in from the redirect parameters. Safe to call from both the
+ * login prompt and the callback route - they share one exchange per state.
+ */
+export function completeAuthorization(
+  params: AuthRedirectParams
+): Promise<SessionTokenResponse> {
+  const { state } = params;
+  if (!state) {
+    return Promise.reject(fromOAuthError('state_mismatch'));
+  }
+
+  let exchange = exchanges.get(state);
+  if (!exchange) {
+    exchange = redeem(params);
+    exchanges.set(state, exchange);
+    // On Android the callback route can arrive after the prompt's exchange
+    // has settled, so the result is kept for as long as the request was valid
+    const settled = () => {
+      setTimeout(() => exchanges.delete(state), PENDING_REQUEST_TTL_MS);
+    };
+    exchange.then(settled, settled);
+  }
+  return exchange;
+}
+
+/**
+ * Run the full PKCE sign-in: open Spotify's consent page, wait for the
+ * redirect and exchange the code for a session token.
+ */
+export async function authorizeWithSpotify(): Promise<SessionTokenResponse> {
+  const request = new AuthSession.AuthRequest({
+    clientId: config.spotifyClientId,
+    scopes: SCOPES,
+    redirectUri: AUTH_REDIRECT_URI,
+    usePKCE: true,
+    codeChallengeMethod: AuthSession.CodeChallengeMethod.S256,
+  });
+
+  // Builds the verifier/challenge pair on device
+  const url = await request.makeAuthUrlAsync(SPOTIFY_DISCOVERY);
+  if (!request.codeVerifier) {
+    throw new AuthError('pkce_unavailable', 'Could not prepare a secure sign-in. Please try again.');
+  }
+
+  await setPendingAuthRequest({
+    state: request.state,
+    codeVerifier: request.codeVerifier,
+    redirectUri: request.redirectUri,
+    createdAt: Date.now(),
+  });
+
+  const result = await request.promptAsync(SPOTIFY_DISCOVERY, { url });
+
+  if (result.type === 'success' || result.type === 'error') {
+    return completeAuthorization({
+      code: result.params.code,
+      state: result.params.state,
+      error: result.params.error ?? result.error?.code,
+    });
+  }
+
+  // The pending request is left in place: on Android the redirect can
+  // reopen the app on the callback route instead of resolving the prompt
+  throw new AuthError('cancelled', 'Sign-in was cancelled.');
+}
@@ -0,0 +1,96 @@
+/**
+ * Clock sync
+ *
+ * Estimates the offset between this device's clock and the server's with an
+ * NTP-style exchange over the socket:
+ *
+ *   t0 client sends ping -> t1 server receives -> t2 server replies -> t3 client receives
+ *   offset = ((t1 - t0) + (t2 - t3)) / 2      rtt = (t3 - t0) - (t2 - t1)
+ *
+ * Only the most recent samples are kept, and the one with the lowest RTT
+ * wins - it is the least affected by asymmetric network delays.
+ *
+ * Server timestamps (PartnerStatus.updatedAt, SyncCommand.sentAt) can then be
+ * compared with local time, and playback positions extrapolated to "now".
+ */
+
+import type { ClockPong } from './socketProtocol';
+
+export interface ClockSample {
+  offsetMs: number;
+  rttMs: number;
+  at: number;
+}
+
+const MAX_SAMPLES = 8;
+
+class ClockSync {
+  private samples: ClockSample[] = [];
+  private best: ClockSample | null = null;
+
+  /** Record a ping/pong round trip that the client received at `clientReceivedAt` */
+  addSample(pong: ClockPong, clientReceivedAt: number): ClockSample {
+    const { clientSentAt, serverReceivedAt, serverSentAt } = pong;
+    const sample: ClockSample = {
+      offsetMs: ((serverReceivedAt - clientSentAt) + (serverSentAt - clientReceivedAt)) / 2,
+      rttMs: Math.max(
+        (clientReceivedAt - clientSentAt) - (serverSentAt - serverReceivedAt),
+        0
+      ),
+      at: clientReceivedAt,
+    };
+
+    this.samples = [...this.samples, sample].slice(-MAX_SAMPLES);
+    this.best = this.samples.reduce((best, candidate) =>
+      candidate.rttMs < best.rttMs ? candidate : best
+    );
+    return sample;
+  }
+
+  /** Server clock minus local clock; 0 until the first sample */
+  getOffset(): number {
+    return this.best?.offsetMs ?? 0;
+  }
+
+  /** Round-trip time of the sample the offset comes from, if any */
+  getRtt(): number | null {
+    return this.best?.rttMs ?? null;
+  }
+
+  isSynced(): boolean {
+    return this.best !== null;
+  }
+
+  /** Current time on the server's clock */
+  serverNow(): number {
+    return Date.now() + this.getOffset();
+  }
+
+  /** Forget all samples, e.g. after reconnecting to a different server */
+  reset(): void {
+    this.samples = [];
+    this.best = null;
+  }
+}
+
+export const clockSync = new ClockSync();
+
+/**
+ * Where playback reported at `updatedAt` (server time) should be now.
+ * Paused playback stays put; otherwise the elapsed time is added, capped at
+ * the track's duration when known.
+ */
+export function extrapolatePosition(state: {
+  positionMs: number;
+  updatedAt?: number;
+  isPlaying?: boolean;
+  durationMs?: number;
+}): number {
+  if (state.isPlaying === false || state.updatedAt === undefined) {
+    return state.positionMs;
+  }
+
+  const elapsed = Math.max(clockSync.serverNow() - state.updatedAt, 0);
+  const position = state.positionMs + elapsed;
+  return state.durationMs !== undefined ? Math.min(position, state.durationMs) : position;
+}
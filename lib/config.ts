@@ -5,6 +5,8 @@
  * - Development on simulator: localhost works
  * - Development on physical device: uses Expo's hostUri to get local IP
  * - Production: uses environment variable
+ *
+ * Also exposes the Spotify client ID used for the PKCE sign-in flow
  */
 
 import Constants from 'expo-constants';
@@ -46,6 +48,7 @@ function getApiUrl(): string {
 export const config = {
   apiUrl: getApiUrl(),
   backendPort: BACKEND_PORT,
+  spotifyClientId: process.env.EXPO_PUBLIC_SPOTIFY_CLIENT_ID ?? '',
 };
 
 // Log the resolved URL in development
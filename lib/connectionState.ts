@@ -0,0 +1,39 @@
+/**
+ * Socket connection state machine
+ *
+ *   offline --start--> connecting --ready--> connected
+ *                          |                    |
+ *                        lost                 lost
+ *                          v                    v
+ *                     reconnecting --ready--> connected
+ *
+ * Losing the network moves any active state to offline; getting it back
+ * resumes reconnecting. A completed handshake always means connected, even
+ * if the network status was slow to catch up. Events that don't apply to
+ * the current state are ignored.
+ */
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+export type ConnectionEvent =
+  /** A socket was created */
+  | 'start'
+  /** Connected and the protocol/resume handshake finished */
+  | 'ready'
+  /** The connection dropped or failed; Socket.IO is retrying */
+  | 'lost'
+  | 'network_lost'
+  | 'network_restored'
+  /** Signed out, or the server rejected our protocol */
+  | 'stop';
+
+const TRANSITIONS: Record<ConnectionState, Partial<Record<ConnectionEvent, ConnectionState>>> = {
+  offline: { start: 'connecting', network_restored: 'reconnecting', ready: 'connected' },
+  connecting: { ready: 'connected', lost: 'reconnecting', network_lost: 'offline', stop: 'offline' },
+  connected: { lost: 'reconnecting', network_lost: 'offline', stop: 'offline' },
+  reconnecting: { ready: 'connected', network_lost: 'offline', stop: 'offline' },
+};
+
+export function transition(state: ConnectionState, event: ConnectionEvent): ConnectionState {
+  return TRANSITIONS[state][event] ?? state;
+}
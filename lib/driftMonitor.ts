@@ -0,0 +1,83 @@
+/**
+ * Drift monitor
+ *
+ * While listening together, periodically compares local playback with
+ * where the partner's playback should be (see extrapolatePosition) and
+ * seeks when the two have drifted further apart than the threshold.
+ *
+ * A cooldown after each seek lets playback settle before the next check,
+ * so a slow seek doesn't trigger a second one.
+ */
+
+export interface DriftMonitorOptions {
+  /** Where playback should be now, or null when there is nothing to follow */
+  getTargetPosition: () => number | null;
+  /** Where local playback actually is, or null if unknown */
+  getLocalPosition: () => Promise<number | null>;
+  seek: (positionMs: number) => Promise<void>;
+  thresholdMs?: number;
+  intervalMs?: number;
+  cooldownMs?: number;
+}
+
+const DEFAULT_THRESHOLD_MS = 1500;
+const DEFAULT_INTERVAL_MS = 5 * 1000;
+const DEFAULT_COOLDOWN_MS = 10 * 1000;
+
+export class DriftMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+  private lastSeekAt = 0;
+  private options: DriftMonitorOptions;
+
+  constructor(options: DriftMonitorOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    const intervalMs = this.options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      this.check().catch((error) => {
+        console.error('Drift check failed:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Measure drift once, seeking if needed. Resolves with the drift in ms
+   * (positive = local is ahead), or null if it couldn't be measured.
+   */
+  async check(): Promise<number | null> {
+    const cooldownMs = this.options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    if (this.checking || Date.now() - this.lastSeekAt < cooldownMs) return null;
+
+    this.checking = true;
+    try {
+      const local = await this.options.getLocalPosition();
+      // Sample the target after the (slow) local read so both refer to now
+      const target = this.options.getTargetPosition();
+      if (local === null || target === null) return null;
+
+      const drift = local - target;
+      const thresholdMs = this.options.thresholdMs ?? DEFAULT_THRESHOLD_MS;
+
+      if (Math.abs(drift) > thresholdMs) {
+        console.log(`🎯 Drifted ${Math.round(drift)}ms, seeking to ${Math.round(target)}ms`);
+        this.lastSeekAt = Date.now();
+        await this.options.seek(Math.round(target));
+      }
+      return drift;
+    } finally {
+      this.checking = false;
+    }
+  }
+}
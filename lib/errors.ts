@@ -0,0 +1,178 @@
+/**
+ * API error types
+ *
+ * Every failed request rejects with an ApiError (or one of its subclasses),
+ * so screens can branch with instanceof / error.code instead of parsing
+ * messages.
+ */
+
+export interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  requestId?: string | null;
+  retryable?: boolean;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  /** HTTP status, or 0 when no response was received */
+  readonly status: number;
+  /** Machine-readable error code, e.g. "invite_expired" */
+  readonly code: string;
+  /** Backend request id, for correlating with server logs */
+  readonly requestId: string | null;
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean;
+  /** Server-suggested delay before retrying, if any */
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? 0;
+    this.code = options.code ?? 'api_error';
+    this.requestId = options.requestId ?? null;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Your session has expired', options: ApiErrorOptions = {}) {
+    super(message, { code: 'unauthorized', ...options, status: 401 });
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', options: ApiErrorOptions = {}) {
+    super(message, { code: 'not_found', ...options, status: 404 });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ExpiredError extends ApiError {
+  constructor(message = 'This link has expired', options: ApiErrorOptions = {}) {
+    super(message, { code: 'expired', status: 410, ...options });
+    this.name = 'ExpiredError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(message = 'Too many requests', options: ApiErrorOptions = {}) {
+    super(message, { code: 'rate_limited', ...options, status: 429, retryable: true });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'No connection to the server', options: ApiErrorOptions = {}) {
+    super(message, { code: 'network_error', ...options, status: 0, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = 'The request timed out', options: ApiErrorOptions = {}) {
+    super(message, { code: 'timeout', ...options, status: 0, retryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+// The caller aborted the request (e.g. the screen unmounted)
+export class CancelledError extends ApiError {
+  constructor(message = 'The request was cancelled', options: ApiErrorOptions = {}) {
+    super(message, { code: 'cancelled', ...options, status: 0, retryable: false });
+    this.name = 'CancelledError';
+  }
+}
+
+// The response didn't have the shape the app expects (see schema.ts)
+export class ValidationError extends ApiError {
+  /** Path of the offending field, e.g. "tracks[3].durationMs" */
+  readonly path: string;
+
+  constructor(
+    message = 'Unexpected response from the server',
+    options: ApiErrorOptions & { path?: string } = {}
+  ) {
+    super(message, { code: 'invalid_response', ...options, retryable: false });
+    this.name = 'ValidationError';
+    this.path = options.path ?? '';
+  }
+}
+
+// Spotify has no device to play on (the app isn't open anywhere), or the
+// chosen device has gone away
+export class NoActiveDeviceError extends ApiError {
+  constructor(
+    message = "Spotify isn't open on any device. Open it on your phone, computer or speaker, then try again.",
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, { code: 'no_active_device', ...options, retryable: false });
+    this.name = 'NoActiveDeviceError';
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+/** What to tell the user about a failed request */
+export function getErrorMessage(error: unknown): string {
+  // Other errors come from the app itself and don't mean much to users
+  return error instanceof ApiError ? error.message : 'Please try again.';
+}
+
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Build the matching ApiError subclass for a non-2xx response.
+ * The backend sends `{ error: string, code?: string, requestId?: string }`.
+ */
+export async function createApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  const message: string = body.error || `API Error: ${response.status}`;
+  const options: ApiErrorOptions = {
+    status: response.status,
+    ...(body.code ? { code: body.code } : {}),
+    requestId: response.headers.get('x-request-id') ?? body.requestId ?? null,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  };
+
+  // Before anything code-based, so e.g. session_expired still reaches the
+  // session refresh and sign-out handling
+  if (response.status === 401) {
+    return new UnauthorizedError(message, options);
+  }
+  if (response.status === 410 || options.code === 'invite_expired') {
+    return new ExpiredError(message, options);
+  }
+  // The backend's message is Spotify's, which isn't meant for users
+  if (options.code === 'no_active_device' || options.code === 'device_not_found') {
+    return new NoActiveDeviceError(undefined, options);
+  }
+
+  switch (response.status) {
+    case 404:
+      return new NotFoundError(message, options);
+    case 429:
+      return new RateLimitedError(message, options);
+    default:
+      return new ApiError(message, {
+        ...options,
+        retryable: [502, 503, 504].includes(response.status),
+      });
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Invite codes typed or pasted by hand
+ *
+ * Accepts a bare code or a whole invite link (https://…/invite/CODE or
+ * echoes://invite/CODE), since people paste whatever they were sent.
+ */
+
+// Codes are URL-safe tokens
+const INVITE_CODE_PATTERN = /^[A-Za-z0-9_-]{6,64}$/;
+
+const INVITE_LINK_PATTERN = /\binvite\/([^/?#\s]+)/;
+
+/** The invite code in `input`, or null if it doesn't look like one */
+export function parseInviteCode(input: string): string | null {
+  const trimmed = input.trim();
+  const code = INVITE_LINK_PATTERN.exec(trimmed)?.[1] ?? trimmed;
+  return INVITE_CODE_PATTERN.test(code) ? code : null;
+}
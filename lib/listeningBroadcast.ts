@@ -0,0 +1,72 @@
+/**
+ * Listening broadcast
+ *
+ * Decides which listening:* event (if any) to send after each sample of the
+ * user's own playback, so the partner sees what we're playing without an
+ * event per poll:
+ * - start: playback began, or moved to a different playlist
+ * - update: track or play/pause changed right away; a seek or a periodic
+ *   heartbeat at most every MIN_UPDATE_INTERVAL_MS
+ * - stop: nothing is playing any more (or sharing was turned off)
+ *
+ * The heartbeat keeps the partner's extrapolated position honest - see
+ * extrapolatePosition in clockSync.ts.
+ */
+
+import type { PlaybackState } from './api';
+
+export type BroadcastEvent = 'start' | 'update' | 'stop';
+
+/** What the partner was last told */
+export interface BroadcastSnapshot {
+  playlistId: string | null;
+  trackUri: string;
+  isPlaying: boolean;
+  positionMs: number;
+  /** Local time it was sent */
+  sentAt: number;
+}
+
+// A position further than this from where we'd expect is treated as a seek
+const SEEK_TOLERANCE_MS = 3 * 1000;
+const MIN_UPDATE_INTERVAL_MS = 2 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * The event to send for `state`, sampled at `now`, given what was last sent.
+ * Pass null for `state` when nothing should be shared.
+ */
+export function nextBroadcast(
+  last: BroadcastSnapshot | null,
+  state: PlaybackState | null,
+  now: number
+): BroadcastEvent | null {
+  const track = state?.track;
+  if (!state || !track) return last ? 'stop' : null;
+
+  // Paused playback that was never shared stays private
+  if (!last) return state.isPlaying ? 'start' : null;
+  if (state.playlistId !== last.playlistId) return 'start';
+
+  if (track.uri !== last.trackUri || state.isPlaying !== last.isPlaying) {
+    return 'update';
+  }
+
+  const sinceLast = now - last.sentAt;
+  if (sinceLast < MIN_UPDATE_INTERVAL_MS) return null;
+
+  const expectedMs = last.isPlaying ? last.positionMs + sinceLast : last.positionMs;
+  if (Math.abs(state.positionMs - expectedMs) > SEEK_TOLERANCE_MS) return 'update';
+
+  return state.isPlaying && sinceLast >= HEARTBEAT_MS ? 'update' : null;
+}
+
+export function snapshotOf(state: PlaybackState, now: number): BroadcastSnapshot {
+  return {
+    playlistId: state.playlistId,
+    trackUri: state.track?.uri ?? '',
+    isPlaying: state.isPlaying,
+    positionMs: state.positionMs,
+    sentAt: now,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Network status
+ *
+ * Tracks device connectivity via expo-network so the query cache can serve
+ * persisted data while offline and reconcile once the connection returns.
+ */
+
+import * as Network from 'expo-network';
+
+type NetworkListener = (isOnline: boolean) => void;
+
+// Assume online until told otherwise so the first requests aren't held back
+let online = true;
+const listeners = new Set<NetworkListener>();
+
+function toOnline(state: Network.NetworkState): boolean {
+  // isInternetReachable is undefined while still being determined
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+function setOnline(next: boolean): void {
+  if (next === online) return;
+  online = next;
+  listeners.forEach((listener) => listener(online));
+}
+
+Network.getNetworkStateAsync()
+  .then((state) => setOnline(toOnline(state)))
+  .catch(() => {});
+
+Network.addNetworkStateListener((state) => setOnline(toOnline(state)));
+
+export function isOnline(): boolean {
+  return online;
+}
+
+export function subscribeNetwork(listener: NetworkListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Run `callback` each time the device goes from offline to online */
+export function onReconnect(callback: () => void): () => void {
+  return subscribeNetwork((isOnline) => {
+    if (isOnline) callback();
+  });
+}
@@ -0,0 +1,334 @@
+/**
+ * Mutation outbox
+ *
+ * Playlist and invite mutations go through a durable queue instead of
+ * calling the API directly:
+ * - Entries are persisted, so nothing is lost if the app is closed offline
+ * - They are sent in order; a transient failure (offline, timeout, 5xx)
+ *   holds the queue, so nothing behind it goes out first
+ * - Each entry's id is sent as its idempotency key, so a replay of a request
+ *   that reached the server before the connection dropped is a no-op
+ * - Permanent failures are set aside as "failed" until retried or
+ *   discarded. The rest of the queue carries on without them, and a retried
+ *   entry goes out after whatever is pending by then.
+ *
+ * Screens read the queue with the useOutbox hook to show pending state.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { api, Invite } from './api';
+import { ApiError, CancelledError } from './errors';
+import { isOnline, onReconnect } from './network';
+import { queryCache, queryKeys } from './queryCache';
+import { getStoredOutbox, setStoredOutbox } from './storage';
+
+export type OutboxMutation =
+  | { type: 'createPlaylist'; name: string }
+  | { type: 'createInvite' }
+  | { type: 'revokeInvite'; code: string }
+  | { type: 'regenerateInvite'; code: string }
+  | { type: 'acceptInvite'; code: string }
+  | { type: 'declineInvite'; code: string };
+
+export interface OutboxEntry {
+  /** Also used as the idempotency key */
+  id: string;
+  mutation: OutboxMutation;
+  status: 'pending' | 'failed';
+  createdAt: number;
+  attempts: number;
+  /** Message of the last failure, if any */
+  error: string | null;
+}
+
+interface MutationResults {
+  createPlaylist: Awaited<ReturnType<typeof api.createPlaylist>>;
+  createInvite: Awaited<ReturnType<typeof api.createInvite>>;
+  revokeInvite: Awaited<ReturnType<typeof api.revokeInvite>>;
+  regenerateInvite: Awaited<ReturnType<typeof api.regenerateInvite>>;
+  acceptInvite: Awaited<ReturnType<typeof api.acceptInvite>>;
+  declineInvite: Awaited<ReturnType<typeof api.declineInvite>>;
+}
+
+export type MutationResult<M extends OutboxMutation> = MutationResults[M['type']];
+
+/**
+ * Sent now; saved to be sent once the device is back online; or saved after
+ * a transient server failure, to be retried shortly
+ */
+export type SubmitOutcome<T> =
+  | { status: 'applied'; result: T }
+  | { status: 'queued'; entry: OutboxEntry }
+  | { status: 'retrying'; entry: OutboxEntry };
+
+type AppliedListener = (mutation: OutboxMutation, result: unknown) => void;
+
+interface Waiter {
+  resolve: (outcome: SubmitOutcome<unknown>) => void;
+  reject: (error: unknown) => void;
+}
+
+// How long to hold the queue after a transient failure while online
+const RETRY_DELAY_MS = 30 * 1000;
+
+function send(mutation: OutboxMutation, idempotencyKey: string): Promise<unknown> {
+  const options = { idempotencyKey };
+
+  switch (mutation.type) {
+    case 'createPlaylist':
+      return api.createPlaylist(mutation.name, options);
+    case 'createInvite':
+      return api.createInvite(options);
+    case 'revokeInvite':
+      return api.revokeInvite(mutation.code, options);
+    case 'regenerateInvite':
+      return api.regenerateInvite(mutation.code, options);
+    case 'acceptInvite':
+      return api.acceptInvite(mutation.code, options);
+    case 'declineInvite':
+      return api.declineInvite(mutation.code, options);
+  }
+}
+
+function markRevoked(invites: Invite[], code: string): Invite[] {
+  return invites.map((invite) =>
+    invite.code === code ? { ...invite, status: 'revoked' } : invite
+  );
+}
+
+// Bring cached reads in line with a mutation the server has applied
+function applyToCache(mutation: OutboxMutation, result: unknown): void {
+  switch (mutation.type) {
+    case 'createPlaylist':
+      queryCache.invalidate(queryKeys.playlists());
+      break;
+    case 'createInvite': {
+      const { invite } = result as MutationResults['createInvite'];
+      queryCache.setData<{ invites: Invite[] }>(queryKeys.myInvites(), (current) => ({
+        invites: [invite, ...(current?.invites ?? [])],
+      }));
+      break;
+    }
+    case 'revokeInvite':
+      queryCache.setData<{ invites: Invite[] }>(queryKeys.myInvites(), (current) => ({
+        invites: markRevoked(current?.invites ?? [], mutation.code),
+      }));
+      queryCache.invalidate(queryKeys.invite(mutation.code));
+      break;
+    case 'regenerateInvite': {
+      // The old code is revoked; the new invite goes first
+      const { invite } = result as MutationResults['regenerateInvite'];
+      queryCache.setData<{ invites: Invite[] }>(queryKeys.myInvites(), (current) => ({
+        invites: [invite, ...markRevoked(current?.invites ?? [], mutation.code)],
+      }));
+      queryCache.invalidate(queryKeys.invite(mutation.code));
+      break;
+    }
+    case 'acceptInvite':
+      // The partnership brings shared playlists and consumes the invite
+      queryCache.invalidate(['invites']);
+      queryCache.invalidate(queryKeys.playlists());
+      break;
+    case 'declineInvite':
+      queryCache.invalidate(queryKeys.invite(mutation.code));
+      break;
+  }
+}
+
+function isTransient(error: unknown): boolean {
+  return error instanceof ApiError && error.retryable;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Something went wrong';
+}
+
+class Outbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<() => void>();
+  private appliedListeners = new Set<AppliedListener>();
+  private waiters = new Map<string, Waiter>();
+  private loaded: Promise<void> | null = null;
+  private draining: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = getStoredOutbox().then((stored) => {
+        // Anything submitted while loading goes after what was stored
+        this.entries = [...stored, ...this.entries];
+        this.emit();
+      });
+    }
+    return this.loaded;
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Entries are replaced, never mutated, so they can back useSyncExternalStore
+  private setEntries(entries: OutboxEntry[]): void {
+    this.entries = entries;
+    this.emit();
+    setStoredOutbox(entries).catch((error) => {
+      console.error('Error saving outbox:', error);
+    });
+  }
+
+  private patch(id: string, patch: Partial<OutboxEntry>): void {
+    this.setEntries(
+      this.entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry))
+    );
+  }
+
+  private takeWaiter(id: string): Waiter | undefined {
+    const waiter = this.waiters.get(id);
+    this.waiters.delete(id);
+    return waiter;
+  }
+
+  getEntries(): readonly OutboxEntry[] {
+    return this.entries;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Called for every mutation the server applies, including replays */
+  onApplied(listener: AppliedListener): () => void {
+    this.appliedListeners.add(listener);
+    return () => {
+      this.appliedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a mutation and send it if possible. Resolves once it is applied,
+   * or as soon as it is known to be waiting for the network. Rejects with
+   * the API error if the server refuses it - the entry is dropped then, as
+   * the caller reports the error itself - or with CancelledError if the
+   * outbox is cleared first.
+   */
+  async submit<M extends OutboxMutation>(
+    mutation: M
+  ): Promise<SubmitOutcome<MutationResult<M>>> {
+    await this.load();
+
+    const entry: OutboxEntry = {
+      id: Crypto.randomUUID(),
+      mutation,
+      status: 'pending',
+      createdAt: Date.now(),
+      attempts: 0,
+      error: null,
+    };
+    this.setEntries([...this.entries, entry]);
+
+    if (!isOnline()) {
+      return { status: 'queued', entry };
+    }
+
+    const outcome = new Promise<SubmitOutcome<unknown>>((resolve, reject) => {
+      this.waiters.set(entry.id, { resolve, reject });
+    });
+    this.flush();
+    // The waiter is only resolved with the result of sending `mutation`
+    return (await outcome) as SubmitOutcome<MutationResult<M>>;
+  }
+
+  /** Send everything that is pending, in order */
+  flush(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private async drain(): Promise<void> {
+    await this.load();
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    // Entries submitted mid-drain are picked up by the same loop
+    while (isOnline() && api.getSessionToken()) {
+      const entry = this.entries.find((candidate) => candidate.status === 'pending');
+      if (!entry) break;
+
+      try {
+        const result = await send(entry.mutation, entry.id);
+
+        this.setEntries(this.entries.filter((candidate) => candidate.id !== entry.id));
+        applyToCache(entry.mutation, result);
+        this.appliedListeners.forEach((listener) => listener(entry.mutation, result));
+        this.takeWaiter(entry.id)?.resolve({ status: 'applied', result });
+      } catch (error) {
+        if (isTransient(error)) {
+          // Keep the order: nothing behind this entry goes out before it
+          this.patch(entry.id, { attempts: entry.attempts + 1, error: errorMessage(error) });
+          this.retryTimer = setTimeout(() => this.flush(), RETRY_DELAY_MS);
+          break;
+        }
+
+        const waiter = this.takeWaiter(entry.id);
+        if (waiter) {
+          this.setEntries(this.entries.filter((candidate) => candidate.id !== entry.id));
+          waiter.reject(error);
+        } else {
+          this.patch(entry.id, {
+            status: 'failed',
+            attempts: entry.attempts + 1,
+            error: errorMessage(error),
+          });
+        }
+      }
+    }
+
+    // Whatever is left goes out later: when back online, or on the retry
+    // timer if the server was the problem
+    const status = isOnline() ? 'retrying' : 'queued';
+    this.waiters.forEach((waiter, id) => {
+      const entry = this.entries.find((candidate) => candidate.id === id);
+      if (entry) waiter.resolve({ status, entry });
+    });
+    this.waiters.clear();
+  }
+
+  /** Put a failed entry back in the queue */
+  retry(id: string): void {
+    this.patch(id, { status: 'pending', error: null });
+    this.flush();
+  }
+
+  discard(id: string): void {
+    this.setEntries(this.entries.filter((entry) => entry.id !== id));
+  }
+
+  /** Forget everything in memory, e.g. on logout (storage is cleared separately) */
+  clear(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.entries = [];
+    this.waiters.forEach((waiter) => waiter.reject(new CancelledError()));
+    this.waiters.clear();
+    this.loaded = Promise.resolve();
+    this.emit();
+  }
+}
+
+export const outbox = new Outbox();
+
+onReconnect(() => {
+  outbox.flush();
+});
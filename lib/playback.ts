@@ -0,0 +1,219 @@
+/**
+ * Playback service
+ *
+ * Controls the user's Spotify playback through the backend's Spotify
+ * Connect proxy (see the playback endpoints in api.ts), and translates
+ * what the partner is doing into local playback:
+ * - followSync: start where a SyncCommand says, adjusted for its delivery time
+ * - mirrorTransport: repeat a host's play / pause / seek / track change
+ * - createFollowerDriftMonitor: keep a follower within reach of the host
+ *
+ * Spotify applies commands asynchronously, so after starting or skipping a
+ * track the service polls briefly until the new track is reported.
+ *
+ * Playback is started on the device picked in the device picker when there
+ * is one, so a sync can start music on a laptop or speaker. Without one,
+ * Spotify's active device is used; NoActiveDeviceError means there is none.
+ */
+
+import { api, PlaybackState, PlayParams, SpotifyDevice } from './api';
+import { extrapolatePosition } from './clockSync';
+import { DriftMonitor } from './driftMonitor';
+import { NoActiveDeviceError } from './errors';
+import {
+  PreferredDevice,
+  getPreferredDevice,
+  removePreferredDevice,
+  setPreferredDevice,
+} from './storage';
+import type { SessionPlayback, SyncCommand, TransportEvent } from './socketProtocol';
+
+// How long to wait for Spotify to report a track change
+const TRACK_CHANGE_POLL_MS = 300;
+const TRACK_CHANGE_MAX_POLLS = 8;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class PlaybackService {
+  private preferredDevice: Promise<PreferredDevice | null> | null = null;
+
+  /** The device chosen in the device picker, if any */
+  getPreferredDevice(): Promise<PreferredDevice | null> {
+    if (!this.preferredDevice) {
+      this.preferredDevice = getPreferredDevice();
+    }
+    return this.preferredDevice;
+  }
+
+  /** Remember `device` for future playback and move current playback there */
+  async selectDevice(device: SpotifyDevice): Promise<void> {
+    const preferred = { id: device.id, name: device.name };
+    this.preferredDevice = Promise.resolve(preferred);
+    await setPreferredDevice(preferred);
+
+    if (!device.isActive) {
+      const state = await this.getState();
+      await api.transferPlayback(device.id, state?.isPlaying ?? false);
+    }
+  }
+
+  /** Go back to playing on whichever device is active */
+  async clearPreferredDevice(): Promise<void> {
+    this.preferredDevice = Promise.resolve(null);
+    await removePreferredDevice();
+  }
+
+  /** Forget the in-memory choice, e.g. after sign-out cleared storage */
+  reset(): void {
+    this.preferredDevice = null;
+  }
+
+  async getState(signal?: AbortSignal): Promise<PlaybackState | null> {
+    const { playback } = await api.getPlaybackState({ signal });
+    return playback;
+  }
+
+  /** Play one of our playlists, optionally from a given track */
+  async playPlaylist(playlistId: string, fromTrackUri?: string): Promise<PlaybackState | null> {
+    return this.playAndWait({
+      playlistId,
+      offset: fromTrackUri ? { uri: fromTrackUri } : { position: 0 },
+    });
+  }
+
+  async resume(): Promise<void> {
+    await this.play({});
+  }
+
+  async pause(): Promise<void> {
+    await api.pause();
+  }
+
+  async seek(positionMs: number): Promise<void> {
+    await api.seek(positionMs);
+  }
+
+  /** Skip forward or back. Resolves with the playback once the track changed. */
+  async skip(direction: 'next' | 'previous'): Promise<PlaybackState | null> {
+    const before = await this.getState();
+    if (direction === 'next') {
+      await api.skipToNext();
+    } else {
+      await api.skipToPrevious();
+    }
+    return this.waitForTrackChange(before?.track?.uri ?? null);
+  }
+
+  /** Start playing what the partner is playing, where they are now */
+  async followSync(command: SyncCommand): Promise<void> {
+    const positionMs = extrapolatePosition({
+      positionMs: command.positionMs,
+      updatedAt: command.sentAt,
+    });
+    // The partner may be playing something outside our playlists
+    await this.play(
+      command.playlistId
+        ? { playlistId: command.playlistId, offset: { uri: command.trackUri }, positionMs }
+        : { uris: [command.trackUri], positionMs }
+    );
+  }
+
+  /**
+   * Repeat a host's transport action locally. `playlistId` is the session's
+   * playlist, so a track change keeps the playlist as the context.
+   */
+  async mirrorTransport(event: TransportEvent, playlistId?: string): Promise<void> {
+    const { action, sentAt } = event;
+    // Where the host is by now, for actions that leave playback running
+    const positionMs = extrapolatePosition({
+      positionMs: action.positionMs,
+      updatedAt: sentAt,
+      isPlaying: action.type !== 'pause',
+    });
+
+    switch (action.type) {
+      case 'play':
+        await this.play({ positionMs });
+        break;
+      case 'pause':
+        await api.pause();
+        await api.seek(action.positionMs);
+        break;
+      case 'seek':
+        await api.seek(positionMs);
+        break;
+      case 'track':
+        if (!action.trackUri) return;
+        await this.play(
+          playlistId
+            ? { playlistId, offset: { uri: action.trackUri }, positionMs }
+            : { uris: [action.trackUri], positionMs }
+        );
+        break;
+    }
+  }
+
+  /**
+   * A drift monitor that seeks local playback towards the host's.
+   * `getSessionPlayback` should return the latest session playback; nothing
+   * is corrected while a different track is playing locally.
+   */
+  createFollowerDriftMonitor(
+    getSessionPlayback: () => SessionPlayback | null
+  ): DriftMonitor {
+    let localTrackUri: string | null = null;
+
+    return new DriftMonitor({
+      getLocalPosition: async () => {
+        const state = await this.getState();
+        localTrackUri = state?.track?.uri ?? null;
+        return state?.track ? state.positionMs : null;
+      },
+      getTargetPosition: () => {
+        const target = getSessionPlayback();
+        if (!target || target.trackUri !== localTrackUri) return null;
+        return extrapolatePosition(target);
+      },
+      seek: (positionMs) => this.seek(positionMs),
+    });
+  }
+
+  private async playAndWait(params: PlayParams): Promise<PlaybackState | null> {
+    const before = await this.getState();
+    await this.play(params);
+    return this.waitForTrackChange(before?.track?.uri ?? null);
+  }
+
+  // Play on the preferred device. If it has gone away (switched off, signed
+  // out of Spotify), fall back to the active device rather than failing.
+  private async play(params: PlayParams): Promise<void> {
+    const preferred = await this.getPreferredDevice();
+    if (!preferred) {
+      await api.play(params);
+      return;
+    }
+
+    try {
+      await api.play({ ...params, deviceId: preferred.id });
+    } catch (error) {
+      if (!(error instanceof NoActiveDeviceError)) throw error;
+      console.warn(`Preferred device "${preferred.name}" is unavailable`);
+      await api.play(params);
+    }
+  }
+
+  // Poll until a track other than `previousUri` is playing. Gives up after a
+  // couple of seconds and returns whatever is playing then (e.g. the same
+  // track was started again).
+  private async waitForTrackChange(previousUri: string | null): Promise<PlaybackState | null> {
+    let state: PlaybackState | null = null;
+    for (let poll = 0; poll < TRACK_CHANGE_MAX_POLLS; poll++) {
+      await delay(TRACK_CHANGE_POLL_MS);
+      state = await this.getState();
+      if (state?.track && state.track.uri !== previousUri) break;
+    }
+    return state;
+  }
+}
+
+export const playback = new PlaybackService();
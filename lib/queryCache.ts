@@ -0,0 +1,266 @@
+/**
+ * Query cache
+ *
+ * Small stale-while-revalidate cache for API reads:
+ * - Entries are keyed by endpoint + params (see queryKeys)
+ * - Concurrent fetches of the same key share one request
+ * - Cached data is served immediately while a background refetch runs
+ * - Mutations invalidate by key prefix, refetching anything on screen
+ * - Persisted keys are written to storage and hydrated on next launch, so
+ *   the last-known data is available offline
+ *
+ * Screens use it through the useQuery hook.
+ */
+
+import { CancelledError } from './errors';
+import { onReconnect } from './network';
+import { getPersistedQuery, setPersistedQuery } from './storage';
+
+export type QueryKey = readonly (string | number)[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QuerySnapshot<T> {
+  data: T | undefined;
+  error: unknown;
+  /** When data was last fetched successfully (0 = never) */
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface CacheEntry<T> {
+  key: QueryKey;
+  snapshot: QuerySnapshot<T>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  fetcher: QueryFetcher<T> | null;
+  listeners: Set<() => void>;
+  /** Marked stale by a mutation, regardless of age */
+  invalidated: boolean;
+  /** Write successful results to storage */
+  persist: boolean;
+  hydration: Promise<void> | null;
+}
+
+export interface FetchOptions {
+  persist?: boolean;
+}
+
+export const queryKeys = {
+  playlists: () => ['playlists'] as const,
+  playlist: (id: string) => ['playlists', id] as const,
+  playlistTracks: (id: string) => ['playlists', id, 'tracks'] as const,
+  myInvites: () => ['invites', 'mine'] as const,
+  invite: (code: string) => ['invites', code] as const,
+  devices: () => ['playback', 'devices'] as const,
+};
+
+const EMPTY_SNAPSHOT: QuerySnapshot<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+};
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every((part, index) => key[index] === part);
+}
+
+class QueryCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  // Callers agree on a key's type, so this is the one place it is asserted
+  private peek<T>(key: QueryKey): CacheEntry<T> | undefined {
+    return this.entries.get(hashQueryKey(key)) as CacheEntry<T> | undefined;
+  }
+
+  private entry<T>(key: QueryKey): CacheEntry<T> {
+    let entry = this.peek<T>(key);
+
+    if (!entry) {
+      entry = {
+        key,
+        snapshot: EMPTY_SNAPSHOT,
+        promise: null,
+        controller: null,
+        fetcher: null,
+        listeners: new Set(),
+        invalidated: false,
+        persist: false,
+        hydration: null,
+      };
+      this.entries.set(hashQueryKey(key), entry);
+    }
+    return entry;
+  }
+
+  // Snapshots are replaced, never mutated, so they can back useSyncExternalStore
+  private update<T>(entry: CacheEntry<T>, patch: Partial<QuerySnapshot<T>>): void {
+    entry.snapshot = { ...entry.snapshot, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getSnapshot<T>(key: QueryKey): QuerySnapshot<T> {
+    return this.peek<T>(key)?.snapshot ?? EMPTY_SNAPSHOT;
+  }
+
+  isStale(key: QueryKey, ttlMs: number): boolean {
+    const entry = this.peek(key);
+    if (!entry || entry.invalidated) return true;
+    return Date.now() - entry.snapshot.updatedAt > ttlMs;
+  }
+
+  /**
+   * Load the last persisted result for a key that has nothing in memory yet.
+   * Hydrated data keeps its original updatedAt, so it is revalidated as soon
+   * as the device is online.
+   */
+  hydrate(key: QueryKey): Promise<void> {
+    const entry = this.entry(key);
+    entry.persist = true;
+
+    if (!entry.hydration) {
+      entry.hydration = getPersistedQuery(hashQueryKey(key)).then((persisted) => {
+        if (persisted && entry.snapshot.updatedAt === 0) {
+          this.update(entry, { data: persisted.data, updatedAt: persisted.updatedAt });
+        }
+      });
+    }
+    return entry.hydration;
+  }
+
+  private persist<T>(entry: CacheEntry<T>): void {
+    if (!entry.persist) return;
+
+    const { data, updatedAt } = entry.snapshot;
+    setPersistedQuery(hashQueryKey(entry.key), { data, updatedAt }).catch((error) => {
+      console.error('Error persisting query:', error);
+    });
+  }
+
+  /**
+   * Fetch a key, sharing any request already in flight. The fetcher is
+   * remembered so invalidation can refetch the key while it is on screen.
+   */
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: FetchOptions = {}): Promise<T> {
+    const entry = this.entry<T>(key);
+    entry.fetcher = fetcher;
+    if (options.persist) entry.persist = true;
+
+    if (entry.promise) return entry.promise;
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update(entry, { isFetching: true });
+
+    const promise: Promise<T> = fetcher(controller.signal)
+      .then((data) => {
+        if (entry.promise === promise) {
+          entry.invalidated = false;
+          this.settle(entry, { data, error: null, updatedAt: Date.now() });
+          this.persist(entry);
+        }
+        return data;
+      })
+      .catch((error) => {
+        // A cancelled fetch keeps whatever was cached before
+        if (entry.promise === promise) {
+          this.settle(entry, error instanceof CancelledError ? {} : { error });
+        }
+        throw error;
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  private settle<T>(entry: CacheEntry<T>, patch: Partial<QuerySnapshot<T>>): void {
+    entry.promise = null;
+    entry.controller = null;
+    this.update(entry, { ...patch, isFetching: false });
+  }
+
+  private cancel<T>(entry: CacheEntry<T>): void {
+    if (!entry.controller) return;
+
+    entry.controller.abort();
+    this.settle(entry, {});
+  }
+
+  /** Write data directly, e.g. the response of a mutation */
+  setData<T>(key: QueryKey, updater: T | ((current: T | undefined) => T)): void {
+    const entry = this.entry<T>(key);
+    const data = typeof updater === 'function'
+      ? (updater as (current: T | undefined) => T)(entry.snapshot.data)
+      : updater;
+
+    entry.invalidated = false;
+    this.update(entry, { data, error: null, updatedAt: Date.now() });
+    this.persist(entry);
+  }
+
+  /**
+   * Mark every key starting with `prefix` as stale. Keys currently on screen
+   * are refetched in the background; the rest refetch on next use.
+   */
+  invalidate(prefix: QueryKey): void {
+    this.entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      // An in-flight response may predate the mutation
+      this.cancel(entry);
+      entry.invalidated = true;
+
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher).catch(() => {});
+      }
+    });
+  }
+
+  /** Refetch every key currently on screen, e.g. when back online */
+  refetchActive(): void {
+    this.entries.forEach((entry) => {
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher).catch(() => {});
+      }
+    });
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+
+      // Nobody is waiting on the result any more
+      if (entry.listeners.size === 0) {
+        this.cancel(entry);
+      }
+    };
+  }
+
+  /** Drop everything, e.g. on logout */
+  clear(): void {
+    this.entries.forEach((entry, hash) => {
+      this.cancel(entry);
+
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+      } else {
+        entry.invalidated = false;
+        entry.hydration = null;
+        this.update(entry, EMPTY_SNAPSHOT);
+      }
+    });
+  }
+}
+
+export const queryCache = new QueryCache();
+
+// Reconcile anything on screen with the server once connectivity returns
+onReconnect(() => queryCache.refetchActive());
@@ -0,0 +1,142 @@
+/**
+ * Response schemas
+ *
+ * Minimal runtime validators for API payloads. A schema checks an unknown
+ * value and returns it typed, or throws a SchemaError naming the offending
+ * field (e.g. "tracks[3].durationMs: expected number, got string").
+ *
+ * In lenient mode, array items that fail validation are dropped (and
+ * reported) instead of failing the whole response, so one broken track
+ * doesn't take down a screen.
+ */
+
+export interface ParseContext {
+  lenient: boolean;
+  /** Problems that were tolerated in lenient mode */
+  issues: string[];
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path: string, context: ParseContext): T;
+}
+
+export class SchemaError extends Error {
+  /** Dotted path of the offending field, e.g. "playlists[2].name" */
+  readonly path: string;
+
+  constructor(path: string, problem: string) {
+    super(`${path || 'response'}: ${problem}`);
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    parse(value, path) {
+      if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+        throw new SchemaError(path, `expected ${type}, got ${describe(value)}`);
+      }
+      return value as T;
+    },
+  };
+}
+
+export const string = () => primitive<string>('string');
+export const number = () => primitive<number>('number');
+export const boolean = () => primitive<boolean>('boolean');
+
+/** One of a fixed set of string values */
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return {
+    parse(value, path) {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        throw new SchemaError(
+          path,
+          `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`
+        );
+      }
+      return value as T;
+    },
+  };
+}
+
+/** Accepts undefined (and a missing key) */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path, context) {
+      return value === undefined ? undefined : schema.parse(value, path, context);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path, context) {
+      return value === null ? null : schema.parse(value, path, context);
+    },
+  };
+}
+
+/** Only declared fields are kept; unknown fields are ignored */
+export function object<T extends Record<string, unknown>>(
+  shape: { [K in keyof T]: Schema<T[K]> }
+): Schema<T> {
+  return {
+    parse(value, path, context) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, `expected object, got ${describe(value)}`);
+      }
+
+      const input = value as Record<string, unknown>;
+      const output = {} as T;
+
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const field = shape[key].parse(input[key], path ? `${path}.${key}` : key, context);
+        if (field !== undefined) output[key] = field;
+      }
+      return output;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    parse(value, path, context) {
+      if (!Array.isArray(value)) {
+        throw new SchemaError(path, `expected array, got ${describe(value)}`);
+      }
+
+      const output: T[] = [];
+      value.forEach((element, index) => {
+        try {
+          output.push(item.parse(element, `${path}[${index}]`, context));
+        } catch (error) {
+          if (!context.lenient || !(error instanceof SchemaError)) throw error;
+          context.issues.push(error.message);
+        }
+      });
+      return output;
+    },
+  };
+}
+
+/**
+ * Validate a whole payload. Tolerated problems are logged so they still
+ * show up while the app keeps working.
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, lenient: boolean): T {
+  const context: ParseContext = { lenient, issues: [] };
+  const result = schema.parse(value, '', context);
+
+  if (context.issues.length > 0) {
+    console.warn(`Dropped ${context.issues.length} malformed item(s):`, context.issues);
+  }
+  return result;
+}
@@ -0,0 +1,56 @@
+/**
+ * Shared session helpers
+ *
+ * Pure functions over the SharedSession model from socketProtocol.ts, used
+ * to mirror the host's transport locally between full session:state
+ * updates from the server.
+ */
+
+import type {
+  SessionPlayback,
+  SharedSession,
+  TransportAction,
+} from './socketProtocol';
+
+export type SessionRole = 'host' | 'follower';
+
+export function getSessionRole(
+  session: SharedSession | null,
+  spotifyId: string | null
+): SessionRole | null {
+  if (!session || !spotifyId) return null;
+  return session.hostId === spotifyId ? 'host' : 'follower';
+}
+
+/** Playback after `action`, performed at `at` (server time) */
+export function applyTransport(
+  playback: SessionPlayback | null,
+  action: TransportAction,
+  at: number
+): SessionPlayback | null {
+  switch (action.type) {
+    case 'play':
+    case 'pause':
+      if (!playback) return null;
+      return {
+        ...playback,
+        positionMs: action.positionMs,
+        isPlaying: action.type === 'play',
+        updatedAt: at,
+      };
+    case 'seek':
+      if (!playback) return null;
+      return { ...playback, positionMs: action.positionMs, updatedAt: at };
+    case 'track':
+      if (!action.trackUri) return playback;
+      return {
+        ...playback,
+        trackUri: action.trackUri,
+        trackName: action.trackName ?? '',
+        artistName: action.artistName ?? '',
+        positionMs: action.positionMs,
+        isPlaying: true,
+        updatedAt: at,
+      };
+  }
+}
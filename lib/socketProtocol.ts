@@ -0,0 +1,392 @@
+/**
+ * Socket protocol
+ *
+ * The real-time contract with the backend: every event name, its payload,
+ * and the protocol version. The backend mirrors this file - change both
+ * together and bump PROTOCOL_VERSION for anything that isn't backwards
+ * compatible.
+ *
+ * Payloads from the server are validated on receipt (see schema.ts), so a
+ * contract drift shows up as a logged error rather than a crash in render.
+ */
+
+import { Socket } from 'socket.io-client';
+import {
+  Schema,
+  SchemaError,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+} from './schema';
+
+/**
+ * v1: initial contract
+ * v2: shared sessions with a host (session:state / transport / takeover / leave)
+ */
+export const PROTOCOL_VERSION = 2;
+
+// Payloads
+
+export interface PartnerPresence {
+  spotifyId: string;
+}
+
+export interface PartnerStatus {
+  isListening: boolean;
+  spotifyId?: string;
+  playlistId?: string;
+  playlistName?: string;
+  trackUri?: string;
+  trackName?: string;
+  artistName?: string;
+  albumImage?: string;
+  durationMs?: number;
+  positionMs?: number;
+  isPlaying?: boolean;
+  updatedAt?: number;
+}
+
+export interface SyncCommand {
+  trackUri: string;
+  trackName: string;
+  artistName: string;
+  playlistId: string;
+  playlistName: string;
+  positionMs: number;
+  /** Server time at which positionMs was sampled */
+  sentAt?: number;
+}
+
+export interface SessionJoined {
+  spotifyId: string;
+  message: string;
+}
+
+export interface ListeningStart {
+  playlistId: string;
+  playlistName: string;
+  trackUri: string;
+  trackName: string;
+  artistName: string;
+  albumImage?: string;
+  durationMs?: number;
+  positionMs: number;
+}
+
+export interface ListeningUpdate {
+  trackUri: string;
+  trackName?: string;
+  artistName?: string;
+  albumImage?: string;
+  durationMs?: number;
+  positionMs: number;
+  isPlaying: boolean;
+}
+
+// Shared listening sessions. One member is the host; everyone else follows
+// the host's transport (play / pause / seek / track changes).
+
+export interface SessionPlayback {
+  trackUri: string;
+  trackName: string;
+  artistName: string;
+  playlistId?: string;
+  playlistName?: string;
+  positionMs: number;
+  isPlaying: boolean;
+  /** Server time at which positionMs was sampled */
+  updatedAt: number;
+}
+
+export interface SharedSession {
+  id: string;
+  /** Spotify ID of the member in control */
+  hostId: string;
+  memberIds: string[];
+  playback: SessionPlayback | null;
+}
+
+export type TransportActionType = 'play' | 'pause' | 'seek' | 'track';
+
+export interface TransportAction {
+  type: TransportActionType;
+  positionMs: number;
+  /** Set for 'track' */
+  trackUri?: string;
+  trackName?: string;
+  artistName?: string;
+}
+
+export interface TransportEvent {
+  sessionId: string;
+  hostId: string;
+  action: TransportAction;
+  /** Server time at which the host performed the action */
+  sentAt: number;
+}
+
+export interface SessionEnded {
+  sessionId: string;
+  reason: 'host_left' | 'partner_left' | 'expired';
+}
+
+// The partnership was dissolved by either partner
+export interface PartnershipEnded {
+  /** Spotify ID of the partner who ended it */
+  endedBy: string;
+  endedAt: number;
+}
+
+/** Sent to the inviter when their invite is accepted */
+export interface PartnershipCreated {
+  /** Spotify ID of the new partner */
+  partnerId: string;
+  inviteCode: string;
+  createdAt: number;
+}
+
+/** Sent to the inviter when their invite is declined */
+export interface InviteDeclined {
+  inviteCode: string;
+  declinedAt: number;
+}
+
+export interface SessionTakeoverAck {
+  ok: boolean;
+  session: SharedSession | null;
+}
+
+// Sent after every (re)connect to restore session state on the server
+export interface SessionResume {
+  /** What we were broadcasting, if we were listening */
+  listening: ListeningStart | null;
+  /** Whether we had joined the partner's session */
+  joinedPartnerSession: boolean;
+}
+
+export interface SessionResumeAck {
+  partnerOnline: boolean;
+  partnerStatus: PartnerStatus | null;
+  /** The shared session we're still part of, if any */
+  session?: SharedSession | null;
+}
+
+// NTP-style clock sync exchange (see clockSync.ts)
+export interface ClockPing {
+  clientSentAt: number;
+}
+
+export interface ClockPong {
+  clientSentAt: number;
+  serverReceivedAt: number;
+  serverSentAt: number;
+}
+
+export interface ProtocolHello {
+  version: number;
+}
+
+export interface ProtocolHelloAck {
+  /** Whether the server accepts this client's protocol version */
+  ok: boolean;
+  serverVersion: number;
+  minClientVersion: number;
+  message?: string;
+}
+
+// Event maps
+
+export interface ServerToClientEvents {
+  'partner:online': (payload: PartnerPresence) => void;
+  'partner:offline': (payload: PartnerPresence) => void;
+  'partner:status': (payload: PartnerStatus) => void;
+  'session:sync': (payload: SyncCommand) => void;
+  'session:joined': (payload: SessionJoined) => void;
+  'session:state': (payload: SharedSession) => void;
+  'session:transport': (payload: TransportEvent) => void;
+  'session:ended': (payload: SessionEnded) => void;
+  'partnership:ended': (payload: PartnershipEnded) => void;
+  'partnership:created': (payload: PartnershipCreated) => void;
+  'invite:declined': (payload: InviteDeclined) => void;
+}
+
+export interface ClientToServerEvents {
+  'protocol:hello': (payload: ProtocolHello, ack: (response: ProtocolHelloAck) => void) => void;
+  'clock:ping': (payload: ClockPing, ack: (response: ClockPong) => void) => void;
+  'session:resume': (payload: SessionResume, ack: (response: SessionResumeAck) => void) => void;
+  'listening:start': (payload: ListeningStart) => void;
+  'listening:update': (payload: ListeningUpdate) => void;
+  'listening:stop': () => void;
+  'session:join': () => void;
+  /** Host only; the server rejects transport from followers */
+  'session:transport': (payload: TransportAction) => void;
+  'session:takeover': (ack: (response: SessionTakeoverAck) => void) => void;
+  'session:leave': () => void;
+}
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export type ServerEvent = keyof ServerToClientEvents;
+export type ServerPayload<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>[0];
+
+// Schemas
+
+const partnerPresenceSchema: Schema<PartnerPresence> = object({
+  spotifyId: string(),
+});
+
+const partnerStatusSchema: Schema<PartnerStatus> = object({
+  isListening: boolean(),
+  spotifyId: optional(string()),
+  playlistId: optional(string()),
+  playlistName: optional(string()),
+  trackUri: optional(string()),
+  trackName: optional(string()),
+  artistName: optional(string()),
+  albumImage: optional(string()),
+  durationMs: optional(number()),
+  positionMs: optional(number()),
+  isPlaying: optional(boolean()),
+  updatedAt: optional(number()),
+});
+
+const syncCommandSchema: Schema<SyncCommand> = object({
+  trackUri: string(),
+  trackName: string(),
+  artistName: string(),
+  playlistId: string(),
+  playlistName: string(),
+  positionMs: number(),
+  sentAt: optional(number()),
+});
+
+const sessionJoinedSchema: Schema<SessionJoined> = object({
+  spotifyId: string(),
+  message: string(),
+});
+
+export const protocolHelloAckSchema: Schema<ProtocolHelloAck> = object({
+  ok: boolean(),
+  serverVersion: number(),
+  minClientVersion: number(),
+  message: optional(string()),
+});
+
+const sessionPlaybackSchema: Schema<SessionPlayback> = object({
+  trackUri: string(),
+  trackName: string(),
+  artistName: string(),
+  playlistId: optional(string()),
+  playlistName: optional(string()),
+  positionMs: number(),
+  isPlaying: boolean(),
+  updatedAt: number(),
+});
+
+const sharedSessionSchema: Schema<SharedSession> = object({
+  id: string(),
+  hostId: string(),
+  memberIds: array(string()),
+  playback: nullable(sessionPlaybackSchema),
+});
+
+const transportEventSchema: Schema<TransportEvent> = object({
+  sessionId: string(),
+  hostId: string(),
+  action: object({
+    type: oneOf<TransportActionType>('play', 'pause', 'seek', 'track'),
+    positionMs: number(),
+    trackUri: optional(string()),
+    trackName: optional(string()),
+    artistName: optional(string()),
+  }),
+  sentAt: number(),
+});
+
+const sessionEndedSchema: Schema<SessionEnded> = object({
+  sessionId: string(),
+  reason: oneOf('host_left', 'partner_left', 'expired'),
+});
+
+const partnershipEndedSchema: Schema<PartnershipEnded> = object({
+  endedBy: string(),
+  endedAt: number(),
+});
+
+const partnershipCreatedSchema: Schema<PartnershipCreated> = object({
+  partnerId: string(),
+  inviteCode: string(),
+  createdAt: number(),
+});
+
+const inviteDeclinedSchema: Schema<InviteDeclined> = object({
+  inviteCode: string(),
+  declinedAt: number(),
+});
+
+export const sessionTakeoverAckSchema: Schema<SessionTakeoverAck> = object({
+  ok: boolean(),
+  session: nullable(sharedSessionSchema),
+});
+
+export const sessionResumeAckSchema: Schema<SessionResumeAck> = object({
+  partnerOnline: boolean(),
+  partnerStatus: nullable(partnerStatusSchema),
+  session: optional(nullable(sharedSessionSchema)),
+});
+
+export const clockPongSchema: Schema<ClockPong> = object({
+  clientSentAt: number(),
+  serverReceivedAt: number(),
+  serverSentAt: number(),
+});
+
+const serverEventSchemas: { [E in ServerEvent]: Schema<ServerPayload<E>> } = {
+  'partner:online': partnerPresenceSchema,
+  'partner:offline': partnerPresenceSchema,
+  'partner:status': partnerStatusSchema,
+  'session:sync': syncCommandSchema,
+  'session:joined': sessionJoinedSchema,
+  'session:state': sharedSessionSchema,
+  'session:transport': transportEventSchema,
+  'session:ended': sessionEndedSchema,
+  'partnership:ended': partnershipEndedSchema,
+  'partnership:created': partnershipCreatedSchema,
+  'invite:declined': inviteDeclinedSchema,
+};
+
+/**
+ * Subscribe to a server event, validating each payload first. Malformed
+ * payloads are logged and dropped. Returns an unsubscribe function.
+ */
+export function onServerEvent<E extends ServerEvent>(
+  socket: AppSocket,
+  event: E,
+  handler: (payload: ServerPayload<E>) => void
+): () => void {
+  const listener = (payload: unknown) => {
+    let data: ServerPayload<E>;
+    try {
+      data = parse(serverEventSchemas[event], payload, false);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      console.error(`Dropped malformed '${event}' event:`, error.message);
+      return;
+    }
+    handler(data);
+  };
+
+  // Socket.IO can't relate a generic event name to its listener type
+  const untyped = socket as unknown as Socket;
+  const name: string = event;
+  untyped.on(name, listener);
+  return () => {
+    untyped.off(name, listener);
+  };
+}
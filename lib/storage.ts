@@ -1,14 +1,37 @@
 /**
- * Storage utilities using AsyncStorage
+ * Storage utilities
+ *
+ * Secrets (session token, PKCE verifier) live in the secure store; profile
+ * data stays in AsyncStorage. Persisted data is versioned - see
+ * storageMigrations.ts - and migrated before the first read or write.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  StorageAdapter,
+  asyncStorageAdapter,
+  resolveSecureAdapter,
+} from './storageAdapters';
+import { runMigrations } from './storageMigrations';
+import type { OutboxEntry } from './outbox';
 
 const KEYS = {
-  SPOTIFY_ID: '@echoes:spotifyId',
+  SESSION_TOKEN: '@echoes:sessionToken',
   USER_DATA: '@echoes:userData',
+  PENDING_AUTH: '@echoes:pendingAuth',
+  QUERY_PREFIX: '@echoes:query:',
+  QUERY_INDEX: '@echoes:queryIndex',
+  OUTBOX: '@echoes:outbox',
+  PREFERRED_DEVICE: '@echoes:preferredDevice',
+  SHARE_LISTENING: '@echoes:shareListening',
 };
 
+export interface StoredPartner {
+  spotifyId: string;
+  displayName: string;
+  images?: { url: string }[];
+  partnershipStartedAt: string;
+}
+
 export interface StoredUser {
   id: string;
   spotifyId: string;
@@ -16,47 +39,225 @@ export interface StoredUser {
   email?: string;
   images?: { url: string }[];
   partnerId?: string | null;
+  /** Profile of the partner, cached so it shows offline */
+  partner?: StoredPartner | null;
+}
+
+const profileStore: StorageAdapter = asyncStorageAdapter;
+let secureStore: StorageAdapter | null = null;
+let ready: Promise<void> | null = null;
+
+async function stores(): Promise<{ secure: StorageAdapter; profile: StorageAdapter }> {
+  if (!ready) {
+    ready = (async () => {
+      if (!secureStore) {
+        secureStore = await resolveSecureAdapter();
+      }
+      await runMigrations({ secure: secureStore, profile: profileStore });
+    })().catch((error) => {
+      // Allow the next access to retry
+      ready = null;
+      throw error;
+    });
+  }
+  await ready;
+  return { secure: secureStore!, profile: profileStore };
 }
 
-// Spotify ID
-export async function getStoredSpotifyId(): Promise<string | null> {
+async function readJson<T>(store: StorageAdapter, key: string): Promise<T | null> {
+  const json = await store.getItem(key);
+  return json ? (JSON.parse(json) as T) : null;
+}
+
+// Session token (opaque bearer credential issued by the backend)
+export async function getStoredSessionToken(): Promise<string | null> {
   try {
-    return await AsyncStorage.getItem(KEYS.SPOTIFY_ID);
+    const { secure } = await stores();
+    return await secure.getItem(KEYS.SESSION_TOKEN);
   } catch {
     return null;
   }
 }
 
-export async function setStoredSpotifyId(spotifyId: string): Promise<void> {
-  await AsyncStorage.setItem(KEYS.SPOTIFY_ID, spotifyId);
+export async function setStoredSessionToken(token: string): Promise<void> {
+  const { secure } = await stores();
+  await secure.setItem(KEYS.SESSION_TOKEN, token);
 }
 
-export async function removeStoredSpotifyId(): Promise<void> {
-  await AsyncStorage.removeItem(KEYS.SPOTIFY_ID);
+export async function removeStoredSessionToken(): Promise<void> {
+  const { secure } = await stores();
+  await secure.removeItem(KEYS.SESSION_TOKEN);
 }
 
 // User data
 export async function getStoredUser(): Promise<StoredUser | null> {
   try {
-    const json = await AsyncStorage.getItem(KEYS.USER_DATA);
-    return json ? JSON.parse(json) : null;
+    const { profile } = await stores();
+    return await readJson<StoredUser>(profile, KEYS.USER_DATA);
   } catch {
     return null;
   }
 }
 
 export async function setStoredUser(user: StoredUser): Promise<void> {
-  await AsyncStorage.setItem(KEYS.USER_DATA, JSON.stringify(user));
+  const { profile } = await stores();
+  await profile.setItem(KEYS.USER_DATA, JSON.stringify(user));
 }
 
 export async function removeStoredUser(): Promise<void> {
-  await AsyncStorage.removeItem(KEYS.USER_DATA);
+  const { profile } = await stores();
+  await profile.removeItem(KEYS.USER_DATA);
+}
+
+// In-progress PKCE sign-in, kept so the callback route can finish the
+// exchange if the redirect relaunches the app
+export interface PendingAuthRequest {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+export async function getPendingAuthRequest(): Promise<PendingAuthRequest | null> {
+  try {
+    const { secure } = await stores();
+    return await readJson<PendingAuthRequest>(secure, KEYS.PENDING_AUTH);
+  } catch {
+    return null;
+  }
+}
+
+export async function setPendingAuthRequest(request: PendingAuthRequest): Promise<void> {
+  const { secure } = await stores();
+  await secure.setItem(KEYS.PENDING_AUTH, JSON.stringify(request));
+}
+
+export async function removePendingAuthRequest(): Promise<void> {
+  const { secure } = await stores();
+  await secure.removeItem(KEYS.PENDING_AUTH);
+}
+
+// Persisted query results (last-known playlists and tracks for offline use)
+export interface PersistedQuery {
+  data: unknown;
+  updatedAt: number;
+}
+
+export async function getPersistedQuery(hash: string): Promise<PersistedQuery | null> {
+  try {
+    const { profile } = await stores();
+    return await readJson<PersistedQuery>(profile, KEYS.QUERY_PREFIX + hash);
+  } catch {
+    return null;
+  }
+}
+
+// The index is read-modify-written, so updates run one at a time; queries
+// persisted side by side would otherwise drop each other's entries
+let queryIndexQueue: Promise<unknown> = Promise.resolve();
+
+function withQueryIndex<T>(task: () => Promise<T>): Promise<T> {
+  const result = queryIndexQueue.then(task);
+  queryIndexQueue = result.catch(() => {});
+  return result;
+}
+
+export function setPersistedQuery(hash: string, query: PersistedQuery): Promise<void> {
+  return withQueryIndex(async () => {
+    const { profile } = await stores();
+    const index = (await readJson<string[]>(profile, KEYS.QUERY_INDEX)) ?? [];
+
+    await profile.setItem(KEYS.QUERY_PREFIX + hash, JSON.stringify(query));
+    if (!index.includes(hash)) {
+      await profile.setItem(KEYS.QUERY_INDEX, JSON.stringify([...index, hash]));
+    }
+  });
+}
+
+export function clearPersistedQueries(): Promise<void> {
+  return withQueryIndex(async () => {
+    const { profile } = await stores();
+    const index = (await readJson<string[]>(profile, KEYS.QUERY_INDEX)) ?? [];
+
+    await Promise.all(index.map((hash) => profile.removeItem(KEYS.QUERY_PREFIX + hash)));
+    await profile.removeItem(KEYS.QUERY_INDEX);
+  });
+}
+
+// Mutations waiting to be sent (see outbox.ts)
+export async function getStoredOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const { profile } = await stores();
+    return (await readJson<OutboxEntry[]>(profile, KEYS.OUTBOX)) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+export async function setStoredOutbox(entries: OutboxEntry[]): Promise<void> {
+  const { profile } = await stores();
+  await profile.setItem(KEYS.OUTBOX, JSON.stringify(entries));
+}
+
+export async function removeStoredOutbox(): Promise<void> {
+  const { profile } = await stores();
+  await profile.removeItem(KEYS.OUTBOX);
+}
+
+// Spotify Connect device chosen in the device picker
+export interface PreferredDevice {
+  id: string;
+  name: string;
+}
+
+export async function getPreferredDevice(): Promise<PreferredDevice | null> {
+  try {
+    const { profile } = await stores();
+    return await readJson<PreferredDevice>(profile, KEYS.PREFERRED_DEVICE);
+  } catch {
+    return null;
+  }
+}
+
+export async function setPreferredDevice(device: PreferredDevice): Promise<void> {
+  const { profile } = await stores();
+  await profile.setItem(KEYS.PREFERRED_DEVICE, JSON.stringify(device));
+}
+
+export async function removePreferredDevice(): Promise<void> {
+  const { profile } = await stores();
+  await profile.removeItem(KEYS.PREFERRED_DEVICE);
+}
+
+// Whether the user's listening is shared with their partner (on by default)
+export async function getShareListening(): Promise<boolean> {
+  try {
+    const { profile } = await stores();
+    return (await readJson<boolean>(profile, KEYS.SHARE_LISTENING)) ?? true;
+  } catch {
+    return true;
+  }
+}
+
+export async function setShareListening(enabled: boolean): Promise<void> {
+  const { profile } = await stores();
+  await profile.setItem(KEYS.SHARE_LISTENING, JSON.stringify(enabled));
+}
+
+async function removeShareListening(): Promise<void> {
+  const { profile } = await stores();
+  await profile.removeItem(KEYS.SHARE_LISTENING);
 }
 
-// Clear all auth data
+// Clear all auth data, including anything cached for the signed-in user
 export async function clearAuthData(): Promise<void> {
   await Promise.all([
-    removeStoredSpotifyId(),
+    removeStoredSessionToken(),
     removeStoredUser(),
+    removePendingAuthRequest(),
+    clearPersistedQueries(),
+    removeStoredOutbox(),
+    removePreferredDevice(),
+    removeShareListening(),
   ]);
 }
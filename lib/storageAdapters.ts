@@ -0,0 +1,59 @@
+/**
+ * Storage adapters
+ *
+ * A minimal key/value interface so lib/storage.ts can route secrets to the
+ * platform keystore and everything else to AsyncStorage:
+ * - secureStoreAdapter: iOS Keychain / Android Keystore via expo-secure-store
+ * - asyncStorageAdapter: plain AsyncStorage (localStorage on web)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export const asyncStorageAdapter: StorageAdapter = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
+
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+function toSecureKey(key: string): string {
+  return key.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+export const secureStoreAdapter: StorageAdapter = {
+  getItem: (key) => SecureStore.getItemAsync(toSecureKey(key), SECURE_STORE_OPTIONS),
+  setItem: (key, value) =>
+    SecureStore.setItemAsync(toSecureKey(key), value, SECURE_STORE_OPTIONS),
+  removeItem: (key) => SecureStore.deleteItemAsync(toSecureKey(key), SECURE_STORE_OPTIONS),
+};
+
+/**
+ * Pick the best available adapter for secrets. Web has no keystore, so it
+ * falls back to AsyncStorage.
+ */
+export async function resolveSecureAdapter(): Promise<StorageAdapter> {
+  if (Platform.OS === 'web') {
+    return asyncStorageAdapter;
+  }
+
+  try {
+    if (await SecureStore.isAvailableAsync()) {
+      return secureStoreAdapter;
+    }
+  } catch {
+    // Fall through to AsyncStorage
+  }
+  return asyncStorageAdapter;
+}
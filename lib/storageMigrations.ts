@@ -0,0 +1,81 @@
+/**
+ * Storage schema migrations
+ *
+ * Each migration upgrades persisted data by exactly one schema version and
+ * runs once per install. Migrations name their keys literally: they describe
+ * data as it was written at the time and must not change once shipped.
+ */
+
+import { StorageAdapter } from './storageAdapters';
+
+export interface StorageStores {
+  secure: StorageAdapter;
+  profile: StorageAdapter;
+}
+
+interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (stores: StorageStores) => Promise<void>;
+}
+
+export const SCHEMA_VERSION_KEY = '@echoes:schemaVersion';
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move credentials from AsyncStorage into the secure store',
+    migrate: async ({ secure, profile }) => {
+      // Older builds authenticated with the raw Spotify ID. It is no longer
+      // a credential, so it is dropped rather than moved.
+      await profile.removeItem('@echoes:spotifyId');
+
+      // Nothing to move when both stores are the same (e.g. on web)
+      if (secure === profile) return;
+
+      for (const key of ['@echoes:sessionToken', '@echoes:pendingAuth']) {
+        const value = await profile.getItem(key);
+        if (value !== null) {
+          await secure.setItem(key, value);
+          await profile.removeItem(key);
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Drop persisted queries cached before list pagination',
+    migrate: async ({ profile }) => {
+      // Paginated lists are cached as { pages } rather than the bare response
+      const index = await profile.getItem('@echoes:queryIndex');
+      const hashes: string[] = index ? JSON.parse(index) : [];
+
+      for (const hash of hashes) {
+        await profile.removeItem(`@echoes:query:${hash}`);
+      }
+      await profile.removeItem('@echoes:queryIndex');
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function runMigrations(stores: StorageStores): Promise<void> {
+  const stored = await stores.profile.getItem(SCHEMA_VERSION_KEY);
+  const fromVersion = stored ? parseInt(stored, 10) || 0 : 0;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    // Data was written by a newer build; leave it untouched
+    console.warn(
+      `Storage schema v${fromVersion} is newer than this build (v${CURRENT_SCHEMA_VERSION})`
+    );
+    return;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+
+    await migration.migrate(stores);
+    await stores.profile.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+  }
+}